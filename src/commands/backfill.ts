@@ -0,0 +1,169 @@
+import * as path from "path";
+import { parseArgs } from "util";
+import { Api } from "telegram/tl";
+import { config } from "../config";
+import { CheckpointStore } from "../services/checkpointStore";
+import { DeadLetterStore } from "../services/deadLetterStore";
+import { MessageMapStore } from "../services/messageMapStore";
+import { findDropReason } from "../services/messageFilter";
+import { RuntimeStateStore } from "../services/runtimeState";
+import {
+  describeChannel,
+  findChannelMatches,
+  getChannelUsername,
+  resolveChannel,
+  TelegramMessage,
+} from "../services/telegramListener";
+import { WebhookForwarder } from "../services/webhookForwarder";
+import { connectTelegramClient } from "../utils/telegramClient";
+
+const USAGE = `사용법:
+  courier backfill --channel <채널> --since <날짜> [--until <날짜>] [--limit N] [--dry-run]
+
+  --channel   매핑된 채널 (username, 제목 또는 ID)
+  --since     이 시각 이후 게시물부터 (예: 2026-10-01, 2026-10-01T09:00:00+09:00, 시간대가 없으면 UTC)
+  --until     이 시각 이전 게시물까지 (생략 시 현재까지)
+  --limit     최대 메시지 수
+  --dry-run   전송하지 않고 전달될 메시지와 필터 결과만 출력
+
+  실행 중인 courier와 체크포인트 파일을 함께 쓰므로 가능하면 중지한 상태에서 실행하세요.`;
+
+// 과거 게시물을 오래된 순서로 실시간 전달과 같은 파이프라인(필터, 변환, 앨범, 전송 큐)으로 전달
+export async function runBackfill(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      channel: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  if (!values.channel || !values.since) {
+    console.log(USAGE);
+    return;
+  }
+
+  const since = parseDate(values.since, "--since");
+  const until = values.until ? parseDate(values.until, "--until") : undefined;
+  const limit = values.limit ? Number(values.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error(`--limit은 양의 정수여야 합니다: ${values.limit}`);
+  }
+  const dryRun = values["dry-run"];
+
+  const client = await connectTelegramClient();
+  try {
+    const dialogs = await client.getDialogs({ limit: 500 });
+    const { channel } = await resolveChannel(client, values.channel, dialogs);
+    const chatId = String(channel.id);
+
+    // 실행 중 명령으로 바꾼 매핑까지 반영해 이 채널로 확인되는 매핑만 사용
+    const mappings = new RuntimeStateStore(
+      path.join(config.storage.dataDir, "runtime-state.json"),
+    )
+      .apply(config.channelMappings)
+      .filter(
+        (m) => findChannelMatches(m.telegramChannel, [channel]).length > 0,
+      );
+    if (mappings.length === 0) {
+      throw new Error(
+        `${values.channel}에 대한 매핑이 없습니다. 먼저 매핑을 추가하세요.`,
+      );
+    }
+
+    const forwarder = new WebhookForwarder(
+      mappings,
+      () => client,
+      dryRun
+        ? {}
+        : {
+            deadLetters: new DeadLetterStore(
+              path.join(config.storage.dataDir, "dead-letters.json"),
+            ),
+            messageMap: new MessageMapStore(
+              path.join(config.storage.dataDir, "message-map.json"),
+            ),
+          },
+    );
+    forwarder.setChannelResolver(() => chatId);
+    // 백필한 지점까지 체크포인트를 올려 실시간 모드에서 다시 전달하지 않음 (채널만 해당)
+    const checkpoints =
+      !dryRun && channel instanceof Api.Channel
+        ? new CheckpointStore(
+            path.join(config.storage.dataDir, "checkpoints.json"),
+          )
+        : null;
+
+    console.log(
+      `[Backfill] ${describeChannel(channel)}: ${since.toISOString()} ~ ${until?.toISOString() ?? "현재"}${limit ? ` (최대 ${limit}개)` : ""}${dryRun ? " [dry-run]" : ""}`,
+    );
+
+    let count = 0;
+    // 전송 큐에 등록만 하고 넘어가므로 전달이 끝난 뒤에 체크포인트를 옮김
+    let checkpointed: Promise<unknown> = Promise.resolve();
+    for await (const message of client.iterMessages(channel, {
+      reverse: true,
+      offsetDate: Math.floor(since.getTime() / 1000),
+      limit,
+    })) {
+      if (until && message.date * 1000 >= until.getTime()) break;
+      // 고정 알림, 입장 알림 등 서비스 메시지는 전달하지 않음
+      if (!(message instanceof Api.Message)) continue;
+      count++;
+
+      const telegramMessage: TelegramMessage = {
+        id: message.id,
+        text: message.message || "",
+        chatUsername: getChannelUsername(channel),
+        chatTitle: channel.title,
+        chatId,
+        date: message.date,
+        media: message.media,
+        rawMessage: message,
+      };
+
+      if (dryRun) {
+        printDryRun(forwarder, telegramMessage);
+        continue;
+      }
+
+      const delivery = await forwarder.forward(telegramMessage);
+      checkpointed = Promise.all([checkpointed, delivery.delivered]).then(() =>
+        checkpoints?.advance(chatId, message.id),
+      );
+    }
+
+    await forwarder.drain();
+    await checkpointed;
+    console.log(
+      `[Backfill] 완료: ${count}개 메시지${dryRun ? " (dry-run, 전송하지 않음)" : ""}`,
+    );
+  } finally {
+    await client.disconnect();
+  }
+}
+
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${option} 날짜 형식이 올바르지 않습니다: ${value}`);
+  }
+  return date;
+}
+
+function printDryRun(
+  forwarder: WebhookForwarder,
+  message: TelegramMessage,
+): void {
+  const preview = message.text.replace(/\s+/g, " ").substring(0, 50);
+  const destinations = forwarder.findMappings(message).map((mapping) => {
+    const reason = findDropReason(mapping.filters, [message]);
+    const label = forwarder.getDestinationLabel(mapping);
+    return reason ? `${label} 제외(${reason})` : label;
+  });
+  console.log(
+    `[Backfill] #${message.id} ${new Date(message.date * 1000).toISOString()}${message.media ? " 📎" : ""} "${preview}" -> ${destinations.join(", ")}`,
+  );
+}
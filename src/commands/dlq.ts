@@ -0,0 +1,141 @@
+import * as path from "path";
+import { Api } from "telegram/tl";
+import { ChannelMapping, config } from "../config";
+import { DeadLetter, DeadLetterStore } from "../services/deadLetterStore";
+import { WebhookForwarder } from "../services/webhookForwarder";
+import { connectTelegramClient } from "../utils/telegramClient";
+
+const USAGE = `사용법:
+  courier dlq list                 보관된 실패 메시지 목록
+  courier dlq replay [id...]       현재 설정으로 재전송 (id 생략 시 전체)
+  courier dlq purge <id...|--all>  보관된 메시지 삭제`;
+
+export async function runDlq(args: string[]): Promise<void> {
+  const [action, ...ids] = args;
+  const store = new DeadLetterStore(
+    path.join(config.storage.dataDir, "dead-letters.json"),
+  );
+
+  switch (action) {
+    case "list":
+      return listDeadLetters(store);
+    case "replay":
+      return replayDeadLetters(store, ids);
+    case "purge": {
+      if (ids.length === 0) {
+        throw new Error("삭제할 id를 지정하거나 --all을 사용하세요.");
+      }
+      const removed = store.remove(ids.includes("--all") ? undefined : ids);
+      console.log(`[DLQ] ${removed}개 삭제됨`);
+      return;
+    }
+    default:
+      console.log(USAGE);
+  }
+}
+
+function listDeadLetters(store: DeadLetterStore): void {
+  const letters = store.list();
+  if (letters.length === 0) {
+    console.log("[DLQ] 보관된 메시지가 없습니다.");
+    return;
+  }
+
+  for (const letter of letters) {
+    const [first] = letter.messages;
+    const source = first.chatUsername || first.chatTitle || first.chatId;
+    const album =
+      letter.messages.length > 1 ? ` (앨범 ${letter.messages.length}개)` : "";
+    console.log(
+      `${letter.id}  ${letter.failedAt}  ${source}#${first.id}${album}  ` +
+        `status=${letter.status ?? "-"} attempts=${letter.attempts}  ${letter.error}`,
+    );
+  }
+  console.log(`[DLQ] 총 ${letters.length}개`);
+}
+
+async function replayDeadLetters(
+  store: DeadLetterStore,
+  ids: string[],
+): Promise<void> {
+  const letters = store
+    .list()
+    .filter((letter) => ids.length === 0 || ids.includes(letter.id));
+  if (letters.length === 0) {
+    console.log("[DLQ] 재전송할 메시지가 없습니다.");
+    return;
+  }
+
+  const client = await connectTelegramClient();
+  const forwarder = new WebhookForwarder(config.channelMappings, () => client);
+  let succeeded = 0;
+
+  try {
+    for (const letter of letters) {
+      // 미디어를 다시 받기 위해 원본 메시지를 텔레그램에서 가져옴 (앨범은 전부)
+      const [first] = letter.messages;
+      const peer = first.chatUsername || Number(`-100${first.chatId}`);
+      const rawMessages = await client.getMessages(peer, {
+        ids: letter.messages.map((message) => message.id),
+      });
+      if (
+        rawMessages.length !== letter.messages.length ||
+        !rawMessages.every((raw) => raw instanceof Api.Message)
+      ) {
+        console.warn(
+          `[DLQ] ${letter.id}: 원본 메시지를 찾을 수 없습니다 (삭제됨?). purge로 정리하세요.`,
+        );
+        continue;
+      }
+
+      const mapping = resolveCurrentMapping(forwarder, letter);
+
+      try {
+        // 앨범은 한 게시물로 다시 보냄
+        await forwarder.deliver(
+          mapping,
+          letter.messages.map((message, index) => ({
+            ...message,
+            media: rawMessages[index].media,
+            rawMessage: rawMessages[index],
+          })),
+        );
+        store.remove([letter.id]);
+        succeeded++;
+        console.log(`[DLQ] ${letter.id} 재전송 성공`);
+      } catch (error) {
+        store.update({
+          ...letter,
+          mapping,
+          error: error instanceof Error ? error.message : String(error),
+          attempts: letter.attempts + 1,
+        });
+        console.error(`[DLQ] ${letter.id} 재전송 실패:`, error);
+      }
+    }
+  } finally {
+    await client.disconnect();
+  }
+
+  console.log(`[DLQ] 재전송 완료: ${succeeded}/${letters.length}`);
+}
+
+// 설정이 수정되었을 수 있으므로 현재 매핑을 우선 사용
+// (같은 목적지가 있으면 그것을, 없으면 같은 종류의 목적지가 하나뿐일 때 그것을 사용)
+function resolveCurrentMapping(
+  forwarder: WebhookForwarder,
+  letter: DeadLetter,
+): ChannelMapping {
+  const candidates = forwarder.findMappings(letter.messages[0]);
+  const sameTarget = candidates.find(
+    (m) =>
+      (m.webhookUrl && m.webhookUrl === letter.mapping.webhookUrl) ||
+      (m.filePath && m.filePath === letter.mapping.filePath),
+  );
+  if (sameTarget) return sameTarget;
+
+  const sameType = candidates.filter(
+    (m) => (m.type ?? "discord") === (letter.mapping.type ?? "discord"),
+  );
+  return sameType.length === 1 ? sameType[0] : letter.mapping;
+}
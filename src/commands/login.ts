@@ -0,0 +1,74 @@
+import * as readline from "readline";
+import { TelegramClient } from "telegram";
+import { StringSession } from "telegram/sessions";
+import { config } from "../config";
+import { createSessionStore, loadSession } from "../utils/telegramClient";
+
+const USAGE = `사용법:
+  courier login            로그인 후 세션 저장 (TELEGRAM_SESSION_FILE이 없으면 세션 문자열 출력)
+  courier login --print    세션 파일을 쓰더라도 세션 문자열을 함께 출력`;
+
+// 전화번호, 인증 코드, 2FA 비밀번호를 입력받아 세션을 만들고 한 번만 저장/출력
+export async function runLogin(args: string[]): Promise<void> {
+  if (args.some((arg) => arg !== "--print")) {
+    console.log(USAGE);
+    return;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "courier login은 입력을 받을 수 있는 터미널에서 실행해야 합니다.",
+    );
+  }
+
+  const sessionStore = createSessionStore();
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const ask = (prompt: string) =>
+    new Promise<string>((resolve) => rl.question(prompt, resolve));
+
+  // 기존 세션이 유효하면 그대로 재사용 (입력 없이 세션만 다시 저장/출력)
+  const client = new TelegramClient(
+    new StringSession(loadSession(sessionStore)),
+    config.telegram.apiId,
+    config.telegram.apiHash,
+    { connectionRetries: 5 },
+  );
+
+  try {
+    await client.start({
+      phoneNumber: async () =>
+        config.telegram.phoneNumber ||
+        (await ask("[Telegram] 전화번호를 입력하세요 (형식: +821012345678): ")),
+      password: async () => await ask("[Telegram] 2FA 비밀번호를 입력하세요: "),
+      phoneCode: async () =>
+        await ask("[Telegram] 텔레그램 앱에서 받은 인증 코드를 입력하세요: "),
+      onError: (error: Error) => console.error("[Telegram] 에러:", error),
+    });
+
+    const me = await client.getMe();
+    console.log(
+      `[Telegram] 로그인 완료: ${me.username ? `@${me.username}` : me.firstName} (id=${me.id})`,
+    );
+
+    const session = client.session.save() as unknown as string;
+    if (sessionStore) {
+      sessionStore.save(session);
+      console.log(
+        `[Telegram] 암호화된 세션 파일 저장됨: ${sessionStore.getFilePath()}`,
+      );
+    }
+    if (!sessionStore || args.includes("--print")) {
+      console.log("[Telegram] ============================================");
+      console.log(
+        "[Telegram] 세션 문자열 (TELEGRAM_SESSION 환경변수에 설정하세요, 계정 전체 권한이므로 공유 금지):",
+      );
+      console.log(session);
+      console.log("[Telegram] ============================================");
+    }
+  } finally {
+    rl.close();
+    await client.disconnect();
+  }
+}
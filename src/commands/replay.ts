@@ -0,0 +1,55 @@
+import * as path from "path";
+import { parseArgs } from "util";
+import { config } from "../config";
+import { enableDryRun } from "../services/dryRun";
+import { loadRecordedMessages } from "../services/messageRecorder";
+import { RuntimeStateStore } from "../services/runtimeState";
+import { WebhookForwarder } from "../services/webhookForwarder";
+
+const USAGE = `사용법:
+  courier replay <픽스처 디렉터리> [--dry-run]
+
+  COURIER_RECORD_DIR로 기록한 메시지를 텔레그램 연결 없이 현재 매핑으로 다시 전달합니다.
+  --dry-run   전송하지 않고 요청 내용을 출력 (COURIER_DRY_RUN_OUTPUT이 있으면 파일에 기록)`;
+
+// 기록된 메시지를 실시간 전달과 같은 파이프라인(필터, 변환, 앨범, 전송 큐)으로 재현
+export async function runReplay(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { "dry-run": { type: "boolean", default: false } },
+  });
+  const [dir] = positionals;
+  if (!dir) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values["dry-run"] || config.dryRun.enabled) {
+    enableDryRun(config.dryRun.outputPath);
+  }
+
+  const recorded = loadRecordedMessages(path.resolve(process.cwd(), dir));
+  const mappings = new RuntimeStateStore(
+    path.join(config.storage.dataDir, "runtime-state.json"),
+  ).apply(config.channelMappings);
+
+  // 오프라인이므로 미디어는 기록된 파일을 사용하고, 실제 상태 파일(DLQ, 메시지 매핑)은 건드리지 않음
+  const forwarder = new WebhookForwarder(mappings, () => null);
+  const media = new Map(
+    recorded.map(({ message, media }) => [
+      `${message.chatId}:${message.id}`,
+      media,
+    ]),
+  );
+  forwarder.setMediaLoader(
+    async (message) => media.get(`${message.chatId}:${message.id}`) ?? [],
+  );
+
+  console.log(`[Replay] ${recorded.length}개 메시지 재현 시작: ${dir}`);
+  for (const { message } of recorded) {
+    await forwarder.forward(message);
+  }
+  await forwarder.drain();
+  console.log(`[Replay] 완료: ${recorded.length}개 메시지`);
+}
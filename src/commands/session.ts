@@ -0,0 +1,38 @@
+import { config } from "../config";
+import { createSessionStore } from "../utils/telegramClient";
+
+const USAGE = `사용법:
+  courier session import   TELEGRAM_SESSION 값을 암호화해 TELEGRAM_SESSION_FILE로 저장
+  courier session rotate   TELEGRAM_SESSION_NEW_KEY로 세션 파일을 다시 암호화`;
+
+export async function runSession(args: string[]): Promise<void> {
+  const [action] = args;
+  if (action !== "import" && action !== "rotate") {
+    console.log(USAGE);
+    return;
+  }
+
+  const store = createSessionStore();
+  if (!store) {
+    throw new Error("TELEGRAM_SESSION_FILE이 설정되지 않았습니다.");
+  }
+
+  if (action === "import") {
+    const session = config.telegram.session.trim();
+    if (!session) throw new Error("TELEGRAM_SESSION이 비어 있습니다.");
+    store.save(session);
+    console.log(`[Telegram] 세션 파일 저장됨: ${store.getFilePath()}`);
+    console.log("[Telegram] 이제 TELEGRAM_SESSION 환경변수를 삭제해도 됩니다.");
+    return;
+  }
+
+  const newKey = process.env.TELEGRAM_SESSION_NEW_KEY;
+  if (!newKey) throw new Error("TELEGRAM_SESSION_NEW_KEY를 설정하세요.");
+  store.rotate(newKey);
+  console.log(
+    `[Telegram] 세션 파일을 새 키로 다시 암호화함: ${store.getFilePath()}`,
+  );
+  console.log(
+    "[Telegram] TELEGRAM_SESSION_KEY를 새 값으로 바꾸고 TELEGRAM_SESSION_NEW_KEY는 삭제하세요.",
+  );
+}
@@ -0,0 +1,178 @@
+import * as path from "path";
+import { config } from "../config";
+import { CheckpointStore } from "../services/checkpointStore";
+import { ConfigWatcher } from "../services/configWatcher";
+import { ControlCommands } from "../services/controlCommands";
+import { DeadLetterStore } from "../services/deadLetterStore";
+import { enableDryRun } from "../services/dryRun";
+import { HealthServer } from "../services/healthServer";
+import { MessageMapStore } from "../services/messageMapStore";
+import { MessageRecorder } from "../services/messageRecorder";
+import { metrics } from "../services/metrics";
+import { RuntimeStateStore } from "../services/runtimeState";
+import { TelegramListener } from "../services/telegramListener";
+import { WebhookForwarder } from "../services/webhookForwarder";
+import { createSessionStore, loadSession } from "../utils/telegramClient";
+
+export async function runStart(): Promise<void> {
+  console.log("=== Telegram Courier 시작 ===");
+
+  console.log(
+    `[Config] 매핑 설정: ${config.configFile ?? "CHANNEL_MAPPINGS 환경변수"}`,
+  );
+  if (config.channelMappings.length === 0) {
+    console.warn(
+      "[경고] CHANNEL_MAPPINGS가 비어있습니다. 매핑을 설정해주세요.",
+    );
+  }
+
+  // dry-run은 실제 상태를 건드리지 않도록 체크포인트를 쓰지 않고 매핑/DLQ/런타임 상태는 별도 디렉터리에 저장
+  if (config.dryRun.enabled) enableDryRun(config.dryRun.outputPath);
+  const stateDir = config.dryRun.enabled
+    ? path.join(config.storage.dataDir, "dry-run")
+    : config.storage.dataDir;
+
+  // 암호화된 세션 파일을 쓰면 복호화해서 접속하고, 갱신된 세션을 다시 저장
+  const sessionStore = createSessionStore();
+  const listener = new TelegramListener(
+    config.telegram.apiId,
+    config.telegram.apiHash,
+    loadSession(sessionStore),
+  );
+  if (sessionStore) listener.setSessionStore(sessionStore);
+
+  // Saved Messages 명령으로 추가/제거/일시 중지한 매핑 (설정 위에 덧씌움)
+  const runtimeState = new RuntimeStateStore(
+    path.join(stateDir, "runtime-state.json"),
+  );
+  let baseMappings = config.channelMappings;
+  const channelMappings = runtimeState.apply(baseMappings);
+
+  // 폴링할 채널 목록 설정 (푸시 누락 방지용)
+  const pollChannels = channelMappings.map((m) => m.telegramChannel);
+  listener.setChannelsToPoll(pollChannels);
+
+  // 채널별 마지막 전달 메시지 ID 저장 (재시작 후 누락분 따라잡기용)
+  if (!config.dryRun.enabled) {
+    listener.setCheckpointStore(
+      new CheckpointStore(
+        path.join(config.storage.dataDir, "checkpoints.json"),
+      ),
+    );
+  }
+
+  const forwarder = new WebhookForwarder(
+    channelMappings,
+    () => listener.getClient(),
+    {
+      deadLetters: new DeadLetterStore(
+        path.join(stateDir, "dead-letters.json"),
+      ),
+      messageMap: new MessageMapStore(path.join(stateDir, "message-map.json")),
+    },
+  );
+
+  // 시작 시 확인된 채널 ID로 라우팅 (채널 이름/제목이 바뀌어도 유지)
+  forwarder.setChannelResolver((channelName) =>
+    listener.getChannelId(channelName),
+  );
+  forwarder.setPauseChecker((channelName) =>
+    runtimeState.isPaused(channelName),
+  );
+
+  // 설정 변경이나 명령 이후 최종 매핑을 포워더/리스너에 다시 적용
+  // (새 채널을 확인할 수 없으면 리스너가 에러를 내므로 포워더도 바꾸지 않음)
+  const applyMappings = async () => {
+    const mappings = runtimeState.apply(baseMappings);
+    await listener.updateChannels(mappings.map((m) => m.telegramChannel));
+    forwarder.updateMappings(mappings);
+  };
+
+  // 매핑된 채널의 게시물을 픽스처로 기록 (courier replay로 오프라인 재현)
+  if (config.recordDir) {
+    const recorder = new MessageRecorder(config.recordDir);
+    forwarder.setPostRecorder((post) => recorder.record(post));
+  }
+
+  listener.onMessage((message) => forwarder.forward(message));
+
+  // 텔레그램 수정/삭제를 Discord에 동기화
+  listener.onEdit(async (message) => {
+    await forwarder.forwardEdit(message);
+  });
+  listener.onDelete(async (chatId, messageIds) => {
+    await forwarder.forwardDelete(chatId, messageIds);
+  });
+
+  // Saved Messages로 보낸 /status, /pause 등 관리 명령
+  const controlCommands = new ControlCommands({
+    listener,
+    forwarder,
+    state: runtimeState,
+    applyMappings,
+  });
+  listener.onCommand((text) => controlCommands.handle(text));
+
+  // 상태 확인/지표 HTTP 서버 (로그인 대기 중에도 /healthz는 응답하도록 먼저 시작)
+  const startedAt = Date.now();
+  const healthServer = config.http.port
+    ? new HealthServer(config.http.port, () => {
+        const maxIdleSeconds = config.http.readyMaxIdleSeconds;
+        const lastForwardAt = metrics.getLastForwardAt() ?? startedAt;
+        return {
+          telegramConnected: listener.isConnected(),
+          channelsResolved: listener.isReady(),
+          recentForward:
+            !maxIdleSeconds ||
+            Date.now() - lastForwardAt <= maxIdleSeconds * 1000,
+        };
+      })
+    : null;
+  metrics.registerGauge(
+    "courier_queue_depth",
+    "전송 큐에 대기 중인 요청 수",
+    () => forwarder.getQueueDepth(),
+  );
+  metrics.registerGauge(
+    "courier_telegram_connected",
+    "텔레그램 연결 상태 (1: 연결됨)",
+    () => (listener.isConnected() ? 1 : 0),
+  );
+  healthServer?.start();
+
+  await listener.start();
+
+  // 설정 파일을 쓰면 변경 시 재시작 없이 매핑/필터/템플릿을 다시 적용
+  const configWatcher = config.configFile
+    ? new ConfigWatcher(config.configFile, async (mappings) => {
+        // 시작 시 거부될 채널이 있으면 적용하지 않고 기존 설정 유지
+        await listener.checkChannels(
+          runtimeState.apply(mappings).map((m) => m.telegramChannel),
+        );
+        baseMappings = mappings;
+        await applyMappings();
+      })
+    : null;
+  configWatcher?.start();
+
+  // Graceful shutdown 핸들러 등록 (먼저 등록해야 시그널 수신 가능)
+  const shutdown = async () => {
+    console.log("\n종료 신호 수신...");
+    configWatcher?.stop();
+    await healthServer?.stop();
+    // 모으던 앨범까지 보낸 뒤 연결 종료 (미디어 다운로드에 연결이 필요)
+    await forwarder.drain();
+    await listener.stop();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  console.log("=== Telegram Courier 실행 중 ===");
+
+  // 프로세스를 살아있게 유지 (Railway/Docker 환경에서 필수)
+  // 이 Promise는 절대 resolve되지 않으므로 프로세스가 계속 실행됨
+  // SIGINT/SIGTERM 시그널로만 종료 가능
+  await new Promise(() => {});
+}
@@ -1,6 +1,8 @@
 import * as dotenv from 'dotenv'
 import * as fs from 'fs'
 import * as path from 'path'
+import YAML from 'yaml'
+import { compilePattern } from './utils/pattern'
 
 // .env 파일을 직접 읽어서 멀티라인 값을 지원
 function loadEnv(): Record<string, string> | null {
@@ -86,9 +88,90 @@ if (multilineKeys) {
   }
 }
 
+export type DestinationType = 'discord' | 'slack' | 'json' | 'file'
+
+export const DESTINATION_TYPES: DestinationType[] = ['discord', 'slack', 'json', 'file']
+
+export type MediaKind = 'photo' | 'video' | 'document' | 'sticker' | 'none' | 'other'
+
+export const MEDIA_KINDS: MediaKind[] = ['photo', 'video', 'document', 'sticker', 'none', 'other']
+
+// 매핑별 필터 규칙 (모두 선택, 걸리면 전달하지 않음)
+export interface FilterRules {
+  // 하나 이상 포함해야 전달 (대소문자 무시)
+  includeKeywords?: string[]
+  // 하나라도 포함하면 제외 (대소문자 무시)
+  excludeKeywords?: string[]
+  // 정규식 ("/패턴/플래그" 형식 또는 패턴 문자열)
+  includePatterns?: string[]
+  excludePatterns?: string[]
+  // 허용할 미디어 종류 (미디어 없는 메시지는 none)
+  mediaTypes?: MediaKind[]
+  // 다른 채널에서 전달(forward)된 메시지 제외
+  skipForwarded?: boolean
+  // 답장 메시지 제외
+  skipReplies?: boolean
+}
+
+// 매핑별 텍스트 변환 (설정 순서대로 적용, {channel} {username} {messageId} {date} {link} 사용 가능)
+export type TextTransform =
+  // 정규식 치환 (replacement에서 $1, $<name> 사용 가능)
+  | { type: 'replace'; pattern: string; replacement?: string }
+  // URL 제거 (숨은 링크는 글자만 남김)
+  | { type: 'stripUrls' }
+  // @username을 지정한 이름으로 (없으면 @만 제거)
+  | { type: 'mentions'; names?: Record<string, string> }
+  | { type: 'prepend'; template: string }
+  | { type: 'append'; template: string }
+  // Discord 역할/사용자 멘션 추가 (embed 밖 본문에 붙어야 알림이 감)
+  | { type: 'mention'; roles?: string[]; users?: string[]; everyone?: boolean }
+
+export const TRANSFORM_TYPES: TextTransform['type'][] = ['replace', 'stripUrls', 'mentions', 'prepend', 'append', 'mention']
+
+// Discord 게시물 표시 형식 (템플릿에 {channel} {title} {username} {messageId} {date} {link} 사용 가능)
+export interface DiscordPresentation {
+  // 웹훅 표시 이름 / 아바타 덮어쓰기
+  username?: string
+  avatarUrl?: string
+  // embed 색상 (숫자 또는 "#0099ff")
+  color?: number | string
+  // embed 제목/푸터 템플릿 (기본값: "📨 {channel}" / "Telegram에서 전달됨", 빈 문자열이면 푸터 생략)
+  title?: string
+  footer?: string
+  // embed(기본) 또는 embed 없이 본문(content)으로 게시
+  mode?: 'embed' | 'content'
+  // 긴 본문이 여러 게시물로 나뉠 때 미디어를 붙일 위치 (기본값: first)
+  mediaPosition?: 'first' | 'last'
+  // 허용할 멘션 (기본값: 없음 - 전달된 텍스트의 @everyone 등으로 알림이 가지 않음)
+  allowedMentions?: {
+    parse?: ('roles' | 'users' | 'everyone')[]
+    roles?: string[]
+    users?: string[]
+  }
+}
+
 export interface ChannelMapping {
   telegramChannel: string
-  webhookUrl: string
+  // 목적지 종류 (기본값: discord)
+  type?: DestinationType
+  // discord / slack / json 목적지의 웹훅 URL
+  webhookUrl?: string
+  // json 목적지에 함께 보낼 HTTP 헤더 (인증 토큰 등)
+  headers?: Record<string, string>
+  // file 목적지의 JSONL 파일 경로
+  filePath?: string
+  // 텔레그램에서 수정된 메시지를 Discord에도 반영 (기본값: true)
+  syncEdits?: boolean
+  // 텔레그램에서 삭제된 메시지를 Discord에서도 삭제 (기본값: true)
+  syncDeletes?: boolean
+  // 게시물 하나에 올릴 수 있는 첨부 용량 (MB, 서버 부스트 단계에 맞게 설정, 기본값: 8)
+  maxUploadSizeMB?: number
+  // 내용 필터 (광고, 스티커 도배 등 제외)
+  filters?: FilterRules
+  // 전달 전 텍스트 변환 (추천 링크 제거, 머리말/꼬리말, 멘션 등)
+  transforms?: TextTransform[]
+  // Discord 게시물 표시 형식
+  presentation?: DiscordPresentation
 }
 
 function requireEnv(key: string): string {
@@ -99,32 +182,371 @@ function requireEnv(key: string): string {
   return value
 }
 
-function parseChannelMappings(raw: string): ChannelMapping[] {
+// 설정 검증 실패 (문제마다 "mappings[3].webhookUrl: ..." 형식의 경로를 포함)
+export class ConfigError extends Error {
+  readonly issues: string[]
+
+  constructor(source: string, issues: string[]) {
+    super(`${source} 설정 오류:\n  - ${issues.join('\n  - ')}`)
+    this.name = 'ConfigError'
+    this.issues = issues
+  }
+}
+
+const MAPPING_KEYS = [
+  'telegramChannel',
+  'type',
+  'webhookUrl',
+  'headers',
+  'filePath',
+  'syncEdits',
+  'syncDeletes',
+  'maxUploadSizeMB',
+  'filters',
+  'transforms',
+  'presentation',
+]
+const FILTER_KEYS = [
+  'includeKeywords',
+  'excludeKeywords',
+  'includePatterns',
+  'excludePatterns',
+  'mediaTypes',
+  'skipForwarded',
+  'skipReplies',
+]
+const TRANSFORM_KEYS: Record<TextTransform['type'], string[]> = {
+  replace: ['pattern', 'replacement'],
+  stripUrls: [],
+  mentions: ['names'],
+  prepend: ['template'],
+  append: ['template'],
+  mention: ['roles', 'users', 'everyone'],
+}
+const PRESENTATION_KEYS = [
+  'username',
+  'avatarUrl',
+  'color',
+  'title',
+  'footer',
+  'mode',
+  'mediaPosition',
+  'allowedMentions',
+]
+const DISCORD_WEBHOOK_URL = /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+// 오타 등 알 수 없는 키도 문제로 기록 (조용히 무시되지 않도록)
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string, issues: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) issues.push(`${path}.${key}: 알 수 없는 설정입니다.`)
+  }
+}
+
+function checkString(value: unknown, path: string, issues: string[]): void {
+  if (value !== undefined && typeof value !== 'string') issues.push(`${path}: 문자열이어야 합니다.`)
+}
+
+function checkBoolean(value: unknown, path: string, issues: string[]): void {
+  if (value !== undefined && typeof value !== 'boolean') issues.push(`${path}: true 또는 false여야 합니다.`)
+}
+
+function checkStringArray(value: unknown, path: string, issues: string[]): void {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: 문자열 배열이어야 합니다.`)
+    return
+  }
+  value.forEach((item, index) => checkString(item, `${path}[${index}]`, issues))
+}
+
+function checkPattern(value: unknown, path: string, issues: string[], flags = ''): void {
+  if (typeof value !== 'string') {
+    issues.push(`${path}: 정규식 문자열이어야 합니다.`)
+    return
+  }
   try {
-    const parsed = JSON.parse(raw)
-    if (!Array.isArray(parsed)) {
-      throw new Error('CHANNEL_MAPPINGS는 JSON 배열이어야 합니다.')
+    compilePattern(value, flags)
+  } catch (error) {
+    issues.push(`${path}: 잘못된 정규식 "${value}" (${(error as Error).message})`)
+  }
+}
+
+function checkOneOf(value: unknown, allowed: readonly string[], path: string, issues: string[]): void {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    issues.push(`${path}: 알 수 없는 값 "${value}" (${allowed.join(', ')})`)
+  }
+}
+
+function validateFilters(filters: unknown, path: string, issues: string[]): void {
+  if (filters === undefined) return
+  if (!isObject(filters)) {
+    issues.push(`${path}: 객체여야 합니다.`)
+    return
+  }
+  checkKeys(filters, FILTER_KEYS, path, issues)
+
+  checkStringArray(filters.includeKeywords, `${path}.includeKeywords`, issues)
+  checkStringArray(filters.excludeKeywords, `${path}.excludeKeywords`, issues)
+  for (const key of ['includePatterns', 'excludePatterns']) {
+    const patterns = filters[key]
+    if (patterns === undefined) continue
+    if (!Array.isArray(patterns)) {
+      issues.push(`${path}.${key}: 문자열 배열이어야 합니다.`)
+      continue
+    }
+    patterns.forEach((pattern, index) => checkPattern(pattern, `${path}.${key}[${index}]`, issues))
+  }
+  if (filters.mediaTypes !== undefined) {
+    if (!Array.isArray(filters.mediaTypes)) {
+      issues.push(`${path}.mediaTypes: 배열이어야 합니다.`)
+    } else {
+      filters.mediaTypes.forEach((kind, index) => checkOneOf(kind, MEDIA_KINDS, `${path}.mediaTypes[${index}]`, issues))
     }
-    for (const item of parsed) {
-      if (!item.telegramChannel || !item.webhookUrl) {
-        throw new Error('각 매핑에는 telegramChannel과 webhookUrl이 필요합니다.')
+  }
+  checkBoolean(filters.skipForwarded, `${path}.skipForwarded`, issues)
+  checkBoolean(filters.skipReplies, `${path}.skipReplies`, issues)
+}
+
+function validateTransform(transform: unknown, path: string, issues: string[]): void {
+  if (!isObject(transform)) {
+    issues.push(`${path}: 객체여야 합니다.`)
+    return
+  }
+  const type = transform.type as TextTransform['type']
+  if (!TRANSFORM_TYPES.includes(type)) {
+    issues.push(`${path}.type: 알 수 없는 변환 "${type}" (${TRANSFORM_TYPES.join(', ')})`)
+    return
+  }
+  checkKeys(transform, ['type', ...TRANSFORM_KEYS[type]], path, issues)
+
+  switch (type) {
+    case 'replace':
+      checkPattern(transform.pattern, `${path}.pattern`, issues, 'g')
+      checkString(transform.replacement, `${path}.replacement`, issues)
+      break
+    case 'mentions':
+      if (
+        transform.names !== undefined &&
+        !(isObject(transform.names) && Object.values(transform.names).every((name) => typeof name === 'string'))
+      ) {
+        issues.push(`${path}.names: {"username": "이름"} 형식의 객체여야 합니다.`)
       }
+      break
+    case 'prepend':
+    case 'append':
+      if (typeof transform.template !== 'string') issues.push(`${path}.template: ${type} 변환에는 필수입니다.`)
+      break
+    case 'mention':
+      checkStringArray(transform.roles, `${path}.roles`, issues)
+      checkStringArray(transform.users, `${path}.users`, issues)
+      checkBoolean(transform.everyone, `${path}.everyone`, issues)
+      break
+  }
+}
+
+function validatePresentation(presentation: unknown, path: string, issues: string[]): void {
+  if (presentation === undefined) return
+  if (!isObject(presentation)) {
+    issues.push(`${path}: 객체여야 합니다.`)
+    return
+  }
+  checkKeys(presentation, PRESENTATION_KEYS, path, issues)
+
+  for (const key of ['username', 'title', 'footer']) checkString(presentation[key], `${path}.${key}`, issues)
+  const { avatarUrl, color, allowedMentions } = presentation
+  if (avatarUrl !== undefined && !(typeof avatarUrl === 'string' && isHttpUrl(avatarUrl))) {
+    issues.push(`${path}.avatarUrl: http(s) URL이어야 합니다.`)
+  }
+  if (
+    color !== undefined &&
+    !(typeof color === 'number' && Number.isInteger(color) && color >= 0 && color <= 0xffffff) &&
+    !(typeof color === 'string' && /^#?[0-9a-fA-F]{6}$/.test(color))
+  ) {
+    issues.push(`${path}.color: "#0099ff" 형식 또는 0~16777215 사이의 숫자여야 합니다.`)
+  }
+  checkOneOf(presentation.mode, ['embed', 'content'], `${path}.mode`, issues)
+  checkOneOf(presentation.mediaPosition, ['first', 'last'], `${path}.mediaPosition`, issues)
+
+  if (allowedMentions === undefined) return
+  if (!isObject(allowedMentions)) {
+    issues.push(`${path}.allowedMentions: 객체여야 합니다.`)
+    return
+  }
+  checkKeys(allowedMentions, ['parse', 'roles', 'users'], `${path}.allowedMentions`, issues)
+  if (allowedMentions.parse !== undefined) {
+    if (!Array.isArray(allowedMentions.parse)) {
+      issues.push(`${path}.allowedMentions.parse: 배열이어야 합니다.`)
+    } else {
+      allowedMentions.parse.forEach((parse, index) =>
+        checkOneOf(parse, ['roles', 'users', 'everyone'], `${path}.allowedMentions.parse[${index}]`, issues),
+      )
+    }
+  }
+  checkStringArray(allowedMentions.roles, `${path}.allowedMentions.roles`, issues)
+  checkStringArray(allowedMentions.users, `${path}.allowedMentions.users`, issues)
+}
+
+function validateMapping(item: unknown, path: string, issues: string[]): void {
+  if (!isObject(item)) {
+    issues.push(`${path}: 객체여야 합니다.`)
+    return
+  }
+  checkKeys(item, MAPPING_KEYS, path, issues)
+
+  if (typeof item.telegramChannel !== 'string' || !item.telegramChannel.trim()) {
+    issues.push(`${path}.telegramChannel: 필수 항목입니다.`)
+  }
+
+  const type = item.type ?? 'discord'
+  if (!DESTINATION_TYPES.includes(type as DestinationType)) {
+    issues.push(`${path}.type: 알 수 없는 목적지 "${type}" (${DESTINATION_TYPES.join(', ')})`)
+  } else if (type === 'file') {
+    if (typeof item.filePath !== 'string' || !item.filePath) issues.push(`${path}.filePath: file 목적지에는 필수입니다.`)
+  } else if (typeof item.webhookUrl !== 'string' || !item.webhookUrl) {
+    issues.push(`${path}.webhookUrl: ${type} 목적지에는 필수입니다.`)
+  } else if (type === 'discord' && !DISCORD_WEBHOOK_URL.test(item.webhookUrl)) {
+    issues.push(`${path}.webhookUrl: Discord 웹훅 URL이 아닙니다.`)
+  } else if (!isHttpUrl(item.webhookUrl)) {
+    issues.push(`${path}.webhookUrl: http(s) URL이 아닙니다.`)
+  }
+
+  if (
+    item.headers !== undefined &&
+    !(isObject(item.headers) && Object.values(item.headers).every((value) => typeof value === 'string'))
+  ) {
+    issues.push(`${path}.headers: 값이 모두 문자열인 객체여야 합니다.`)
+  }
+  checkBoolean(item.syncEdits, `${path}.syncEdits`, issues)
+  checkBoolean(item.syncDeletes, `${path}.syncDeletes`, issues)
+  if (item.maxUploadSizeMB !== undefined && !(Number(item.maxUploadSizeMB) > 0)) {
+    issues.push(`${path}.maxUploadSizeMB: 0보다 큰 숫자여야 합니다.`)
+  }
+
+  validateFilters(item.filters, `${path}.filters`, issues)
+  if (item.transforms !== undefined) {
+    if (!Array.isArray(item.transforms)) {
+      issues.push(`${path}.transforms: 배열이어야 합니다.`)
+    } else {
+      item.transforms.forEach((transform, index) => validateTransform(transform, `${path}.transforms[${index}]`, issues))
     }
-    return parsed
+  }
+  validatePresentation(item.presentation, `${path}.presentation`, issues)
+}
+
+/**
+ * 매핑 목록 검증 (모든 문제를 경로와 함께 모아서 ConfigError로 던짐)
+ * @param path 에러 메시지에 쓸 목록의 이름 (예: "mappings")
+ */
+export function validateChannelMappings(value: unknown, source: string, path: string): ChannelMapping[] {
+  const issues: string[] = []
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: 배열이어야 합니다.`)
+  } else {
+    value.forEach((item, index) => validateMapping(item, `${path}[${index}]`, issues))
+  }
+
+  if (issues.length > 0) throw new ConfigError(source, issues)
+  return value as ChannelMapping[]
+}
+
+function parseChannelMappings(raw: string): ChannelMapping[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
   } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error(`CHANNEL_MAPPINGS JSON 파싱 실패: ${error.message}`)
+    throw new Error(`CHANNEL_MAPPINGS JSON 파싱 실패: ${(error as Error).message}`)
+  }
+  return validateChannelMappings(parsed, 'CHANNEL_MAPPINGS', 'CHANNEL_MAPPINGS')
+}
+
+// COURIER_CONFIG가 없으면 현재 디렉터리에서 찾는 설정 파일 이름
+const CONFIG_FILE_NAMES = ['courier.config.yaml', 'courier.config.yml', 'courier.config.json']
+
+function findConfigFile(): string | undefined {
+  if (process.env.COURIER_CONFIG) {
+    const filePath = path.resolve(process.cwd(), process.env.COURIER_CONFIG)
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`COURIER_CONFIG 설정 파일을 찾을 수 없습니다: ${filePath}`)
     }
-    throw error
+    return filePath
   }
+  return CONFIG_FILE_NAMES.map((name) => path.resolve(process.cwd(), name)).find((filePath) => fs.existsSync(filePath))
 }
 
+/**
+ * 설정 파일(YAML 또는 JSON)에서 매핑 목록을 읽음
+ * 형식: { mappings: [ { telegramChannel, webhookUrl, ... } ] }
+ */
+export function loadConfigFile(filePath: string): ChannelMapping[] {
+  const source = path.basename(filePath)
+  let parsed: unknown
+  try {
+    // YAML은 JSON의 상위 문법이므로 JSON 파일도 그대로 읽힘
+    parsed = YAML.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`${source} 파싱 실패: ${(error as Error).message}`)
+  }
+
+  if (!isObject(parsed)) {
+    throw new ConfigError(source, ['(최상위): mappings 목록을 가진 객체여야 합니다.'])
+  }
+  const unknownKeys = Object.keys(parsed).filter((key) => key !== 'mappings')
+  if (unknownKeys.length > 0) {
+    throw new ConfigError(source, unknownKeys.map((key) => `${key}: 알 수 없는 설정입니다.`))
+  }
+  return validateChannelMappings(parsed.mappings ?? [], source, 'mappings')
+}
+
+const configFile = findConfigFile()
+
 export const config = {
   telegram: {
     apiId: Number(requireEnv('TELEGRAM_API_ID')),
     apiHash: requireEnv('TELEGRAM_API_HASH'),
     phoneNumber: process.env.TELEGRAM_PHONE_NUMBER,
     session: process.env.TELEGRAM_SESSION || '',
+    // 암호화된 세션 파일 (설정하면 TELEGRAM_SESSION 대신 사용, 로그인/세션 갱신 시 저장)
+    sessionFile: process.env.TELEGRAM_SESSION_FILE
+      ? path.resolve(process.cwd(), process.env.TELEGRAM_SESSION_FILE)
+      : undefined,
+    // 세션 파일 암호화 키를 만들 암호문구
+    sessionKey: process.env.TELEGRAM_SESSION_KEY || undefined,
+  },
+  // 설정 파일이 있으면 파일의 매핑을, 없으면 CHANNEL_MAPPINGS 환경변수를 사용
+  configFile,
+  channelMappings: configFile
+    ? loadConfigFile(configFile)
+    : parseChannelMappings(process.env.CHANNEL_MAPPINGS || '[]'),
+  http: {
+    // 상태 확인/지표 HTTP 서버 포트 (Railway는 PORT를 자동 설정, 둘 다 없으면 서버를 띄우지 않음)
+    port: Number(process.env.COURIER_HTTP_PORT || process.env.PORT) || undefined,
+    // 마지막 전달 성공 후 이 시간(초)이 지나면 /readyz 실패 (설정하지 않으면 검사하지 않음)
+    readyMaxIdleSeconds: Number(process.env.COURIER_READY_MAX_IDLE_SECONDS) || undefined,
+  },
+  storage: {
+    // 체크포인트 등 런타임 상태 파일 저장 위치
+    dataDir: path.resolve(process.cwd(), process.env.COURIER_DATA_DIR || 'data'),
+  },
+  dryRun: {
+    // 목적지로 전송하지 않고 요청 내용을 출력 (start, replay)
+    enabled: ['1', 'true'].includes((process.env.COURIER_DRY_RUN || '').toLowerCase()),
+    // 지정하면 콘솔 대신 이 JSONL 파일에 기록
+    outputPath: process.env.COURIER_DRY_RUN_OUTPUT
+      ? path.resolve(process.cwd(), process.env.COURIER_DRY_RUN_OUTPUT)
+      : undefined,
   },
-  channelMappings: parseChannelMappings(process.env.CHANNEL_MAPPINGS || '[]'),
+  // 지정하면 수신한 메시지와 미디어를 이 디렉터리에 기록 (courier replay로 재현)
+  recordDir: process.env.COURIER_RECORD_DIR ? path.resolve(process.cwd(), process.env.COURIER_RECORD_DIR) : undefined,
 }
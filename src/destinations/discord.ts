@@ -0,0 +1,399 @@
+import type { ChannelMapping } from '../config'
+import type { DeliveryQueue } from '../services/deliveryQueue'
+import type { TelegramMessage } from '../services/telegramListener'
+import { escapeDiscordMarkdown, toDiscordMarkdown } from '../utils/discordMarkdown'
+import { formatSize, getMediaInfo, getPostUrl, MediaInfo, MediaSummary, summarizeMedia } from '../utils/media'
+import { buildTemplateVars, renderTemplate } from '../utils/template'
+import { splitText } from '../utils/textSplit'
+import { sendWebhookRequest } from './http'
+import type { Destination, ForwardPost, SentMessage } from './types'
+
+// Discord 메시지 하나에 첨부할 수 있는 최대 파일 수
+const MAX_ATTACHMENTS = 10
+// 매핑에 maxUploadSizeMB가 없을 때의 업로드 한도 (게시물 하나의 첨부 합계 기준)
+const DEFAULT_MAX_UPLOAD_SIZE_MB = 8
+// presentation 설정이 없을 때의 기본 표시 형식
+const DEFAULT_TITLE = '📨 {channel}'
+const DEFAULT_FOOTER = 'Telegram에서 전달됨'
+const DEFAULT_COLOR = 0x0099ff
+// Discord 길이 제한 (embed 하나의 설명, 메시지 하나의 embed 합계)
+const MAX_CONTENT_LENGTH = 2000
+const MAX_DESCRIPTION_LENGTH = 4096
+const MAX_EMBED_TOTAL_LENGTH = 6000
+const MAX_EMBEDS = 10
+
+// multipart 요청에서 첨부 외 payload_json/경계 문자열 등이 차지하는 여유분
+const BODY_OVERHEAD = 1024 * 1024
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text
+}
+
+// 본문 embed에 쓰는 항목 (Discord API 형식)
+interface DiscordEmbed {
+  color?: number
+  title?: string
+  url?: string
+  description?: string
+  timestamp?: string
+  footer?: { text: string }
+  fields?: { name: string; value: string }[]
+}
+
+// Discord가 메시지당 6000자 제한에 포함하는 embed 텍스트 길이
+function embedLength(embed: DiscordEmbed): number {
+  return (
+    (embed.title ?? '').length +
+    (embed.description ?? '').length +
+    (embed.footer?.text ?? '').length +
+    (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0)
+  )
+}
+
+// Discord에 올릴 게시물 하나 (본문 조각 또는 첨부만 담은 후속 게시물)
+interface DiscordPost {
+  payload: Record<string, unknown>
+  attachments: TelegramMessage[]
+  hasText: boolean
+}
+
+// 전달된 Discord 메시지를 가리키는 URL (thread_id 등 기존 쿼리는 유지)
+function webhookMessageUrl(webhookUrl: string, messageId: string): string {
+  const url = new URL(webhookUrl)
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/messages/${messageId}`
+  return url.toString()
+}
+
+// wait=true를 붙이면 Discord가 생성된 메시지(id 포함)를 응답으로 돌려줌
+function withWait(webhookUrl: string): string {
+  const url = new URL(webhookUrl)
+  url.searchParams.set('wait', 'true')
+  return url.toString()
+}
+
+export class DiscordDestination implements Destination {
+  readonly label: string
+  private webhookUrl: string
+  private mapping: ChannelMapping
+  private queue: DeliveryQueue
+
+  constructor(mapping: ChannelMapping, queue: DeliveryQueue) {
+    this.mapping = mapping
+    this.webhookUrl = mapping.webhookUrl!
+    this.queue = queue
+
+    // webhook URL에서 ID 부분만 표시 (보안)
+    const webhookIdMatch = this.webhookUrl.match(/\/webhooks\/(\d+)\//)
+    this.label = webhookIdMatch ? `...webhooks/${webhookIdMatch[1]}/***` : '***'
+  }
+
+  async send(post: ForwardPost): Promise<SentMessage[]> {
+    const webhookUrl = this.webhookUrl
+    const maxUploadSize = (this.mapping.maxUploadSizeMB ?? DEFAULT_MAX_UPLOAD_SIZE_MB) * 1024 * 1024
+    const { messages, captionMessage, sourceName } = post
+    const { uploadable, omitted } = this.splitOversizedMedia(messages, maxUploadSize)
+    const posts = this.layoutPosts(
+      this.buildBodies(post, omitted),
+      uploadable.length > 0 ? this.chunkByAttachmentLimits(uploadable, maxUploadSize) : [],
+      this.buildIdentity(post),
+    )
+
+    // 미디어 다운로드는 큐 대기와 별개로 바로 시작 (재시도 시에도 재사용)
+    // 큐 등록은 동기적으로 해야 같은 웹훅 안에서 텔레그램 순서가 유지됨
+    const requests = posts.map(({ payload, attachments }, index) => {
+      const filesPromise = Promise.all(attachments.map((m) => post.downloadMedia(m))).then((files) => files.flat())
+      const label = `${sourceName}#${captionMessage.id}${posts.length > 1 ? ` (${index + 1}/${posts.length})` : ''}`
+
+      // 미디어가 있으면 multipart/form-data, 텍스트만 있으면 JSON으로 전송
+      const response = this.queue.enqueue<{ id?: string }>(webhookUrl, label, async () => {
+        const files = await filesPromise
+        return sendWebhookRequest({
+          method: 'post',
+          url: withWait(webhookUrl),
+          body: files.length > 0 ? payload : this.withPlaceholder(payload, post, label),
+          files,
+          maxBodyLength: maxUploadSize + BODY_OVERHEAD,
+        })
+      })
+
+      return { response, filesPromise }
+    })
+
+    // Promise.all로 기다려야 뒤쪽 게시물 실패가 처리되지 않은 reject로 남지 않음
+    const responses = await Promise.all(requests.map((request) => request.response))
+    const sent: SentMessage[] = []
+    let fileCount = 0
+    for (const [index, { attachments, hasText }] of posts.entries()) {
+      fileCount += (await requests[index].filesPromise).length
+      const remoteId = responses[index].data?.id
+      // 캡션 메시지는 본문 조각이 담긴 모든 게시물을 순서대로 가리킴 (수정 시 조각별로 반영)
+      if (hasText) sent.push({ message: captionMessage, remoteId })
+      for (const message of attachments) {
+        if (!(hasText && message === captionMessage)) sent.push({ message, remoteId })
+      }
+    }
+    // 미디어가 생략된 메시지는 본문이 시작되는 첫 게시물을 가리킴
+    const firstTextId = responses[posts.findIndex((p) => p.hasText)]?.data?.id
+    for (const message of messages) {
+      if (!uploadable.includes(message) && message !== captionMessage) sent.push({ message, remoteId: firstTextId })
+    }
+
+    console.log(`[Discord] 전송 완료: ${sourceName} (미디어: ${fileCount}개, 게시물: ${posts.length}개)`)
+    return sent
+  }
+
+  // remoteIds: 캡션이 나뉘어 올라간 Discord 메시지들 (순서대로)
+  async edit(remoteIds: string[], post: ForwardPost): Promise<void> {
+    const maxUploadSize = (this.mapping.maxUploadSizeMB ?? DEFAULT_MAX_UPLOAD_SIZE_MB) * 1024 * 1024
+    const { omitted } = this.splitOversizedMedia(post.messages, maxUploadSize)
+    const bodies = this.buildBodies(post, omitted)
+    const allowedMentions = this.buildAllowedMentions(post)
+
+    if (bodies.length > remoteIds.length) {
+      console.warn(
+        `[Discord] 수정된 내용이 기존 게시물 수(${remoteIds.length}개)보다 길어 일부만 반영: ${post.sourceName}#${post.captionMessage.id}`,
+      )
+    }
+
+    const requests = remoteIds.map((remoteId, index) => {
+      const label = `${post.sourceName}#${post.captionMessage.id} 수정`
+      // 내용이 짧아져 남는 조각은 삭제
+      if (index >= bodies.length) return this.delete(remoteId)
+
+      const payload = { ...bodies[index], allowed_mentions: allowedMentions }
+      return this.queue.enqueue(this.webhookUrl, label, () =>
+        sendWebhookRequest({ method: 'patch', url: webhookMessageUrl(this.webhookUrl, remoteId), body: payload }),
+      )
+    })
+    await Promise.all(requests)
+  }
+
+  async delete(remoteId: string): Promise<void> {
+    await this.queue.enqueue(this.webhookUrl, `${remoteId} 삭제`, () =>
+      sendWebhookRequest({ method: 'delete', url: webhookMessageUrl(this.webhookUrl, remoteId) }),
+    )
+  }
+
+  // 보낼 내용이 없으면 (지원하지 않는 미디어, 다운로드 실패, 변환으로 본문이 모두 지워짐)
+  // Discord가 빈 메시지를 거부하므로 제목과 원본 게시물 링크만 보냄
+  private withPlaceholder(
+    payload: Record<string, unknown>,
+    post: ForwardPost,
+    label: string,
+  ): Record<string, unknown> {
+    if (payload.content || payload.embeds) return payload
+
+    console.log(`[Discord] 보낼 내용이 없어 제목과 링크만 전송: ${label}`)
+    const vars = buildTemplateVars(post.captionMessage, post.sourceName)
+    const title = renderTemplate(this.mapping.presentation?.title ?? DEFAULT_TITLE, vars) || post.sourceName
+    const postUrl = getPostUrl(post.captionMessage)
+    return { ...payload, content: truncate([title, postUrl].filter(Boolean).join('\n'), MAX_CONTENT_LENGTH) }
+  }
+
+  // 본문 조각과 첨부 묶음을 게시 순서대로 배치
+  // 미디어는 presentation.mediaPosition에 따라 첫 조각(기본) 또는 마지막 조각에 첨부
+  private layoutPosts(
+    bodies: Record<string, unknown>[],
+    mediaChunks: TelegramMessage[][],
+    identity: Record<string, unknown>,
+  ): DiscordPost[] {
+    const textPosts: DiscordPost[] = bodies.map((body) => ({
+      payload: { ...body, ...identity },
+      attachments: [],
+      hasText: true,
+    }))
+    if (mediaChunks.length === 0) return textPosts
+
+    const [firstChunk, ...restChunks] = mediaChunks
+    // 첨부 한도를 넘는 나머지 미디어는 첨부만 담은 후속 게시물로
+    const mediaPosts: DiscordPost[] = restChunks.map((chunk) => ({ payload: identity, attachments: chunk, hasText: false }))
+
+    if (this.mapping.presentation?.mediaPosition === 'last') {
+      textPosts[textPosts.length - 1].attachments = firstChunk
+      return [...textPosts, ...mediaPosts]
+    }
+    textPosts[0].attachments = firstChunk
+    return [textPosts[0], ...mediaPosts, ...textPosts.slice(1)]
+  }
+
+  // 한도를 넘는 미디어는 올리지 않고 생략 안내를 붙임
+  private splitOversizedMedia(
+    messages: TelegramMessage[],
+    maxUploadSize: number,
+  ): { uploadable: TelegramMessage[]; omitted: string[] } {
+    const uploadable: TelegramMessage[] = []
+    const omitted: string[] = []
+    for (const message of messages) {
+      const info = getMediaInfo(message)
+      if (info && info.size > maxUploadSize) {
+        console.log(`[Discord] 파일 크기 초과 (${formatSize(info.size)}), 업로드 생략: ${info.name}`)
+        omitted.push(this.describeOmittedMedia(message, info))
+      } else {
+        uploadable.push(message)
+      }
+    }
+    return { uploadable, omitted }
+  }
+
+  // 본문: embed 모드(기본) 또는 content 모드 (presentation.mode)
+  // 긴 본문은 Discord 길이 제한에 맞춰 여러 게시물로 나눔 (게시물마다 payload 하나)
+  private buildBodies(post: ForwardPost, omitted: string[]): Record<string, unknown>[] {
+    const presentation = this.mapping.presentation ?? {}
+    const message = post.captionMessage
+    // 텔레그램 서식(굵게, 링크, 코드 등)을 Discord 마크다운으로 변환하고 전달 출처/답장 인용을 앞에 붙임
+    const markdown = message.text ? toDiscordMarkdown(message.text, message.entities ?? message.rawMessage.entities ?? []) : ''
+    const text = [this.describeContext(message), markdown].filter(Boolean).join('\n')
+    // embed 안의 멘션은 알림이 가지 않으므로 content에 넣음
+    const mentions = (post.mentions ?? []).join(' ')
+    const omittedNote = omitted.length > 0 ? `📎 생략된 미디어 (용량 초과)\n${omitted.join('\n')}` : ''
+    // 투표, 위치, 링크 미리보기 등 파일이 아닌 미디어
+    const summaries = post.messages.flatMap((m) => summarizeMedia(m) ?? [])
+
+    if (presentation.mode === 'content') {
+      const summaryNotes = summaries.map(
+        (summary) => `**${escapeDiscordMarkdown(summary.title, false)}**\n${this.renderSummary(summary)}`,
+      )
+      const content = [mentions, text, ...summaryNotes, omittedNote].filter(Boolean).join('\n')
+      const pieces = splitText(content, MAX_CONTENT_LENGTH)
+      return pieces.length > 0 ? pieces.map((content) => ({ content })) : [{}]
+    }
+
+    // 제목은 첫 embed에, 푸터/시간/생략 안내는 마지막 embed에 붙임
+    const vars = buildTemplateVars(message, post.sourceName)
+    const color = this.getColor()
+    const header: DiscordEmbed = {}
+    const title = renderTemplate(presentation.title ?? DEFAULT_TITLE, vars)
+    if (title) header.title = truncate(title, 256)
+    // 제목을 누르면 텔레그램 원본 게시물로 이동
+    const postUrl = getPostUrl(message)
+    if (postUrl) header.url = postUrl
+    const trailer: DiscordEmbed = { timestamp: new Date(message.date * 1000).toISOString() }
+    const footer = renderTemplate(presentation.footer ?? DEFAULT_FOOTER, vars)
+    if (footer) trailer.footer = { text: truncate(footer, 2048) }
+    const fields = summaries.map((summary) => ({
+      name: truncate(summary.title, 256),
+      value: truncate(this.renderSummary(summary) || '\u200b', 1024),
+    }))
+    if (omitted.length > 0) {
+      fields.push({ name: '📎 생략된 미디어 (용량 초과)', value: truncate(omitted.join('\n'), 1024) })
+    }
+    if (fields.length > 0) trailer.fields = fields
+
+    // 제목/푸터가 붙은 embed도 메시지당 합계 제한을 넘지 않도록 설명 조각 길이를 줄임
+    const maxDescription = Math.min(
+      MAX_DESCRIPTION_LENGTH,
+      MAX_EMBED_TOTAL_LENGTH - embedLength(header) - embedLength(trailer),
+    )
+    const descriptions = text ? splitText(text, maxDescription) : []
+    const embeds: DiscordEmbed[] = (descriptions.length > 0 ? descriptions : ['']).map((description) =>
+      description ? { color, description } : { color },
+    )
+    Object.assign(embeds[0], header)
+    Object.assign(embeds[embeds.length - 1], trailer)
+
+    // 메시지 하나에 embed 10개, 합계 6000자까지 묶음
+    const groups: DiscordEmbed[][] = []
+    let current: DiscordEmbed[] = []
+    let currentLength = 0
+    for (const embed of embeds) {
+      const length = embedLength(embed)
+      if (current.length > 0 && (current.length >= MAX_EMBEDS || currentLength + length > MAX_EMBED_TOTAL_LENGTH)) {
+        groups.push(current)
+        current = []
+        currentLength = 0
+      }
+      current.push(embed)
+      currentLength += length
+    }
+    groups.push(current)
+
+    return groups.map((group, index) => (index === 0 && mentions ? { content: mentions, embeds: group } : { embeds: group }))
+  }
+
+  private renderSummary(summary: MediaSummary): string {
+    const lines = summary.lines.map((line) => escapeDiscordMarkdown(line))
+    if (summary.url) lines.push(summary.url)
+    return lines.join('\n')
+  }
+
+  // 전달 출처와 답장 인용 (본문 앞에 표시)
+  private describeContext(message: TelegramMessage): string {
+    const lines: string[] = []
+    if (message.forwardedFrom) {
+      const { name, url } = message.forwardedFrom
+      const label = escapeDiscordMarkdown(name, false)
+      lines.push(`↪️ ${url ? `[${label}](${url})` : `**${label}**`}에서 전달됨`)
+    }
+    if (message.replyTo) lines.push(`> ↩️ ${escapeDiscordMarkdown(message.replyTo.text, false)}`)
+    return lines.join('\n')
+  }
+
+  // 웹훅 표시 이름/아바타와 허용할 멘션 (모든 게시물 공통)
+  private buildIdentity(post: ForwardPost): Record<string, unknown> {
+    const presentation = this.mapping.presentation ?? {}
+    const identity: Record<string, unknown> = { allowed_mentions: this.buildAllowedMentions(post) }
+
+    if (presentation.username) {
+      const vars = buildTemplateVars(post.captionMessage, post.sourceName)
+      identity.username = truncate(renderTemplate(presentation.username, vars), 80)
+    }
+    if (presentation.avatarUrl) identity.avatar_url = presentation.avatarUrl
+
+    return identity
+  }
+
+  // 기본적으로 아무도 멘션하지 않음 (전달된 텍스트의 @everyone 등으로 알림이 가지 않도록)
+  // 설정(allowedMentions)과 mention 변환으로 지정한 대상만 허용
+  private buildAllowedMentions(post: ForwardPost): Record<string, unknown> {
+    const configured = this.mapping.presentation?.allowedMentions ?? {}
+    const mentions = post.mentions ?? []
+    const parse = new Set(configured.parse ?? [])
+    if (mentions.includes('@everyone')) parse.add('everyone')
+
+    const roles = [...(configured.roles ?? []), ...mentions.flatMap((m) => m.match(/^<@&(\d+)>$/)?.[1] ?? [])]
+    const users = [...(configured.users ?? []), ...mentions.flatMap((m) => m.match(/^<@(\d+)>$/)?.[1] ?? [])]
+
+    // Discord는 parse에 roles/users가 있으면 같은 종류의 ID 목록을 함께 받지 않음
+    return {
+      parse: Array.from(parse),
+      ...(parse.has('roles') ? {} : { roles: Array.from(new Set(roles)) }),
+      ...(parse.has('users') ? {} : { users: Array.from(new Set(users)) }),
+    }
+  }
+
+  private getColor(): number {
+    const color = this.mapping.presentation?.color
+    if (typeof color === 'number') return color
+    if (typeof color === 'string') return parseInt(color.replace(/^#/, ''), 16)
+    return DEFAULT_COLOR
+  }
+
+  // Discord 첨부 개수/용량 제한에 맞춰 메시지를 여러 게시물로 나눔
+  // (다운로드 전에 나눠야 하므로 텔레그램 메타데이터의 크기를 사용)
+  private chunkByAttachmentLimits(messages: TelegramMessage[], maxUploadSize: number): TelegramMessage[][] {
+    const chunks: TelegramMessage[][] = []
+    let current: TelegramMessage[] = []
+    let currentSize = 0
+
+    for (const message of messages) {
+      const size = getMediaInfo(message)?.size ?? 0
+      if (current.length > 0 && (current.length >= MAX_ATTACHMENTS || currentSize + size > maxUploadSize)) {
+        chunks.push(current)
+        current = []
+        currentSize = 0
+      }
+      current.push(message)
+      currentSize += size
+    }
+    if (current.length > 0) chunks.push(current)
+
+    return chunks
+  }
+
+  private describeOmittedMedia(message: TelegramMessage, info: MediaInfo): string {
+    const description = `${info.name} (${info.contentType}, ${formatSize(info.size)})`
+    // 원본 게시물 링크 제공 (비공개 채널은 멤버만 열 수 있음)
+    const postUrl = getPostUrl(message)
+    return postUrl ? `[${description}](${postUrl})` : description
+  }
+}
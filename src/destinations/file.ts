@@ -0,0 +1,30 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { ChannelMapping } from '../config'
+import { buildJsonPayload } from './json'
+import type { Destination, ForwardPost, SentMessage } from './types'
+
+/**
+ * 게시물을 JSONL 파일에 한 줄씩 기록 (보관용, 네트워크 없이 테스트용)
+ */
+export class FileDestination implements Destination {
+  readonly label: string
+  private filePath: string
+
+  constructor(mapping: ChannelMapping) {
+    this.filePath = path.resolve(process.cwd(), mapping.filePath!)
+    this.label = `file:${this.filePath}`
+  }
+
+  async send(post: ForwardPost): Promise<SentMessage[]> {
+    // 동기 쓰기로 호출 순서 그대로 기록
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.appendFileSync(
+      this.filePath,
+      JSON.stringify({ recordedAt: new Date().toISOString(), ...buildJsonPayload(post) }) + '\n',
+    )
+
+    console.log(`[File] 기록 완료: ${post.sourceName} -> ${this.filePath}`)
+    return post.messages.map((message) => ({ message }))
+  }
+}
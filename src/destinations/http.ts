@@ -0,0 +1,62 @@
+import axios, { AxiosResponse } from 'axios'
+import FormData from 'form-data'
+import type { MediaFile } from '../utils/media'
+
+// 목적지가 보내는 HTTP 요청 (dry-run에서도 같은 내용을 그대로 출력할 수 있도록 전송과 분리)
+export interface WebhookRequest {
+  method: 'post' | 'patch' | 'delete'
+  url: string
+  headers?: Record<string, string>
+  // JSON 본문 (첨부가 있으면 multipart의 payload_json)
+  body?: unknown
+  // 있으면 multipart/form-data로 files[i]에 첨부
+  files?: MediaFile[]
+  maxBodyLength?: number
+}
+
+export type RequestSender = <T>(request: WebhookRequest) => Promise<AxiosResponse<T>>
+
+// 응답이 없는 요청이 큐 전체를 막지 않도록 (시간 초과는 전송 큐가 재시도)
+const REQUEST_TIMEOUT_MS = 30_000
+// 첨부 업로드는 파일 크기를 고려해 더 길게
+const UPLOAD_TIMEOUT_MS = 120_000
+
+function sendRequest<T>(request: WebhookRequest): Promise<AxiosResponse<T>> {
+  const { method, url, headers, body, files, maxBodyLength } = request
+
+  if (files && files.length > 0) {
+    const formData = new FormData()
+    formData.append('payload_json', JSON.stringify(body))
+    files.forEach((file, index) => {
+      formData.append(`files[${index}]`, file.buffer, { filename: file.name, contentType: file.contentType })
+    })
+    return axios.request<T>({
+      method,
+      url,
+      data: formData,
+      headers: { ...formData.getHeaders(), ...headers },
+      maxBodyLength,
+      timeout: UPLOAD_TIMEOUT_MS,
+    })
+  }
+
+  return axios.request<T>({
+    method,
+    url,
+    data: body,
+    headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+    timeout: REQUEST_TIMEOUT_MS,
+  })
+}
+
+let sender: RequestSender = sendRequest
+
+// 재시도 시 다시 호출되므로 multipart 본문도 매번 새로 구성됨
+export function sendWebhookRequest<T>(request: WebhookRequest): Promise<AxiosResponse<T>> {
+  return sender<T>(request)
+}
+
+// dry-run처럼 실제 HTTP 요청 대신 다른 동작이 필요할 때 교체
+export function setRequestSender(next: RequestSender): void {
+  sender = next
+}
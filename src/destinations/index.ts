@@ -0,0 +1,22 @@
+import type { ChannelMapping } from '../config'
+import type { DeliveryQueue } from '../services/deliveryQueue'
+import { DiscordDestination } from './discord'
+import { FileDestination } from './file'
+import { JsonWebhookDestination } from './json'
+import { SlackDestination } from './slack'
+import type { Destination } from './types'
+
+export type { Destination, ForwardPost, SentMessage } from './types'
+
+export function createDestination(mapping: ChannelMapping, queue: DeliveryQueue): Destination {
+  switch (mapping.type ?? 'discord') {
+    case 'discord':
+      return new DiscordDestination(mapping, queue)
+    case 'slack':
+      return new SlackDestination(mapping, queue)
+    case 'json':
+      return new JsonWebhookDestination(mapping, queue)
+    case 'file':
+      return new FileDestination(mapping)
+  }
+}
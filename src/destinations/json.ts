@@ -0,0 +1,70 @@
+import type { ChannelMapping } from '../config'
+import type { DeliveryQueue } from '../services/deliveryQueue'
+import { getMediaInfo, getPostUrl, MediaInfo, summarizeMedia } from '../utils/media'
+import { sendWebhookRequest } from './http'
+import type { Destination, ForwardPost, SentMessage } from './types'
+
+// 썸네일 등 텔레그램 객체는 빼고 파일 정보만
+function toMediaJson(info: MediaInfo | null): Record<string, unknown> | null {
+  return info ? { name: info.name, contentType: info.contentType, size: info.size } : null
+}
+
+// 다른 서비스가 그대로 소비할 수 있는 일반 JSON 형식 (파일 싱크와 공유)
+export function buildJsonPayload(post: ForwardPost): Record<string, unknown> {
+  const { captionMessage, messages } = post
+
+  return {
+    source: {
+      name: post.sourceName,
+      username: captionMessage.chatUsername ?? null,
+      title: captionMessage.chatTitle ?? null,
+      chatId: captionMessage.chatId ?? null,
+    },
+    text: captionMessage.text,
+    date: new Date(captionMessage.date * 1000).toISOString(),
+    messages: messages.map((message) => ({
+      id: message.id,
+      text: message.text,
+      date: new Date(message.date * 1000).toISOString(),
+      url: getPostUrl(message) ?? null,
+      forwardedFrom: message.forwardedFrom ?? null,
+      replyTo: message.replyTo ?? null,
+      // 엔티티 종류는 MessageEntityBold -> bold 형태로 단순화
+      entities: (message.entities ?? message.rawMessage.entities ?? []).map((entity) => ({
+        type: entity.className.replace(/^MessageEntity/, '').toLowerCase(),
+        offset: entity.offset,
+        length: entity.length,
+        ...('url' in entity ? { url: entity.url } : {}),
+      })),
+      media: toMediaJson(getMediaInfo(message)),
+      // 투표, 위치, 연락처, 링크 미리보기 등
+      summary: summarizeMedia(message),
+    })),
+  }
+}
+
+export class JsonWebhookDestination implements Destination {
+  readonly label: string
+  private url: string
+  private headers: Record<string, string>
+  private queue: DeliveryQueue
+
+  constructor(mapping: ChannelMapping, queue: DeliveryQueue) {
+    this.url = mapping.webhookUrl!
+    this.headers = mapping.headers ?? {}
+    this.queue = queue
+    // 호스트만 표시 (경로/쿼리에 토큰이 있을 수 있음)
+    this.label = `json:${new URL(this.url).host}/***`
+  }
+
+  async send(post: ForwardPost): Promise<SentMessage[]> {
+    const payload = buildJsonPayload(post)
+
+    await this.queue.enqueue(this.url, `${post.sourceName}#${post.captionMessage.id}`, () =>
+      sendWebhookRequest({ method: 'post', url: this.url, headers: this.headers, body: payload }),
+    )
+
+    console.log(`[JSON] 전송 완료: ${post.sourceName} -> ${this.label}`)
+    return post.messages.map((message) => ({ message }))
+  }
+}
@@ -0,0 +1,62 @@
+import type { ChannelMapping } from '../config'
+import type { DeliveryQueue } from '../services/deliveryQueue'
+import { formatSize, getMediaInfo, getPostUrl, summarizeMedia } from '../utils/media'
+import { sendWebhookRequest } from './http'
+import type { Destination, ForwardPost, SentMessage } from './types'
+
+// Slack mrkdwn에서 제어 문자로 쓰이는 &, <, >만 이스케이프
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Slack Incoming Webhook
+ * (파일 업로드를 지원하지 않으므로 미디어는 파일 정보와 원본 링크로 표시)
+ */
+export class SlackDestination implements Destination {
+  readonly label = 'slack:***'
+  private webhookUrl: string
+  private queue: DeliveryQueue
+
+  constructor(mapping: ChannelMapping, queue: DeliveryQueue) {
+    this.webhookUrl = mapping.webhookUrl!
+    this.queue = queue
+  }
+
+  async send(post: ForwardPost): Promise<SentMessage[]> {
+    const { captionMessage, messages, sourceName } = post
+    const lines = [`*📨 ${escapeSlack(sourceName)}*`]
+
+    const { forwardedFrom, replyTo } = captionMessage
+    if (forwardedFrom) {
+      const name = escapeSlack(forwardedFrom.name)
+      lines.push(`↪️ ${forwardedFrom.url ? `<${forwardedFrom.url}|${name}>` : `*${name}*`}에서 전달됨`)
+    }
+    if (replyTo) lines.push(`> ↩️ ${escapeSlack(replyTo.text)}`)
+    if (captionMessage.text) lines.push(escapeSlack(captionMessage.text))
+
+    for (const message of messages) {
+      const summary = summarizeMedia(message)
+      if (summary) {
+        lines.push(`*${escapeSlack(summary.title)}*`, ...summary.lines.map(escapeSlack))
+        if (summary.url) lines.push(`<${summary.url}>`)
+      }
+
+      const info = getMediaInfo(message)
+      if (!info) continue
+      const description = `📎 ${escapeSlack(info.name)} (${info.contentType}, ${formatSize(info.size)})`
+      const postUrl = getPostUrl(message)
+      lines.push(postUrl ? `<${postUrl}|${description}>` : description)
+    }
+
+    const postUrl = getPostUrl(captionMessage)
+    if (postUrl) lines.push(`<${postUrl}|Telegram에서 보기>`)
+
+    await this.queue.enqueue(this.webhookUrl, `${sourceName}#${captionMessage.id}`, () =>
+      sendWebhookRequest({ method: 'post', url: this.webhookUrl, body: { text: lines.join('\n') } }),
+    )
+
+    console.log(`[Slack] 전송 완료: ${sourceName}`)
+    return messages.map((message) => ({ message }))
+  }
+}
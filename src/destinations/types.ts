@@ -0,0 +1,34 @@
+import type { TelegramMessage } from '../services/telegramListener'
+import type { MediaFile } from '../utils/media'
+
+// 목적지와 무관한 전달 단위 (단일 메시지 또는 앨범)
+export interface ForwardPost {
+  sourceName: string
+  // 원본 메시지 (앨범이면 여러 개, id 오름차순)
+  messages: TelegramMessage[]
+  // 본문으로 사용할 메시지 (앨범은 보통 첫 메시지에만 캡션이 있음)
+  captionMessage: TelegramMessage
+  // 본문 앞에 붙일 Discord 멘션 (매핑의 mention 변환)
+  mentions?: string[]
+  downloadMedia(message: TelegramMessage): Promise<MediaFile[]>
+}
+
+// 텔레그램 메시지별로 목적지에 생성된 메시지 ID (수정/삭제 동기화용)
+export interface SentMessage {
+  message: TelegramMessage
+  remoteId?: string
+}
+
+/**
+ * 전달 목적지 (Discord, Slack, JSON 웹훅, 파일 등)
+ * send는 첫 await 이전에 전송 큐 등록을 끝내야 목적지별 순서가 유지됨
+ */
+export interface Destination {
+  // 로그 표시용 (URL의 비밀 토큰은 가림)
+  readonly label: string
+  send(post: ForwardPost): Promise<SentMessage[]>
+  // 수정/삭제를 지원하는 목적지만 구현
+  // 긴 본문이 여러 메시지로 나뉘었으면 remoteIds에 순서대로 전달됨
+  edit?(remoteIds: string[], post: ForwardPost): Promise<void>
+  delete?(remoteId: string): Promise<void>
+}
@@ -1,53 +1,33 @@
-import { config } from "./config";
-import { TelegramListener } from "./services/telegramListener";
-import { WebhookForwarder } from "./services/webhookForwarder";
+#!/usr/bin/env node
+import { runBackfill } from "./commands/backfill";
+import { runDlq } from "./commands/dlq";
+import { runLogin } from "./commands/login";
+import { runReplay } from "./commands/replay";
+import { runSession } from "./commands/session";
+import { runStart } from "./commands/start";
+
+const commands: Record<string, (args: string[]) => Promise<void>> = {
+  start: runStart,
+  dlq: runDlq,
+  backfill: runBackfill,
+  replay: runReplay,
+  login: runLogin,
+  session: runSession,
+};
 
 async function main() {
-  console.log("=== Telegram Courier 시작 ===");
-
-  if (config.channelMappings.length === 0) {
-    console.warn(
-      "[경고] CHANNEL_MAPPINGS가 비어있습니다. 매핑을 설정해주세요.",
-    );
+  // 인자 없이 실행하면 기존처럼 포워더 시작
+  const [command = "start", ...args] = process.argv.slice(2);
+
+  const run = commands[command];
+  if (!run) {
+    console.error(`알 수 없는 명령: ${command}`);
+    console.error(`사용 가능한 명령: ${Object.keys(commands).join(", ")}`);
+    process.exit(1);
   }
 
-  const listener = new TelegramListener(
-    config.telegram.apiId,
-    config.telegram.apiHash,
-    config.telegram.phoneNumber,
-    config.telegram.session,
-  );
-
-  // 폴링할 채널 목록 설정 (푸시 누락 방지용)
-  const pollChannels = config.channelMappings.map((m) => m.telegramChannel);
-  listener.setChannelsToPoll(pollChannels);
-
-  const forwarder = new WebhookForwarder(config.channelMappings, () =>
-    listener.getClient(),
-  );
-
-  listener.onMessage(async (message) => {
-    await forwarder.forward(message);
-  });
-
-  await listener.start();
-
-  // Graceful shutdown 핸들러 등록 (먼저 등록해야 시그널 수신 가능)
-  const shutdown = async () => {
-    console.log("\n종료 신호 수신...");
-    await listener.stop();
-    process.exit(0);
-  };
-
-  process.on("SIGINT", shutdown);
-  process.on("SIGTERM", shutdown);
-
-  console.log("=== Telegram Courier 실행 중 ===");
-
-  // 프로세스를 살아있게 유지 (Railway/Docker 환경에서 필수)
-  // 이 Promise는 절대 resolve되지 않으므로 프로세스가 계속 실행됨
-  // SIGINT/SIGTERM 시그널로만 종료 가능
-  await new Promise(() => {});
+  await run(args);
+  process.exit(0);
 }
 
 main().catch((error) => {
@@ -0,0 +1,92 @@
+import type { TelegramMessage } from './telegramListener'
+
+type AlbumHandler = (messages: TelegramMessage[]) => Promise<void>
+
+interface PendingAlbum {
+  chatId: string
+  messages: TelegramMessage[]
+  timer: NodeJS.Timeout
+  // 앨범 전달이 끝나면 완료 (실패해도 완료, 실패 처리는 handler 몫)
+  delivered: Promise<void>
+  resolveDelivered: () => void
+}
+
+/**
+ * 같은 groupedId를 가진 메시지(앨범)를 잠시 모았다가 한 번에 전달
+ * 텔레그램은 앨범의 사진/영상을 각각 별도 메시지로 보내기 때문
+ */
+export class AlbumBuffer {
+  private pending: Map<string, PendingAlbum> = new Map()
+  // 전달 중인 앨범 (drain에서 완료를 기다림)
+  private inFlight: Set<Promise<void>> = new Set()
+  private handler: AlbumHandler
+  private windowMs: number
+
+  constructor(handler: AlbumHandler, windowMs = 1500) {
+    this.handler = handler
+    this.windowMs = windowMs
+  }
+
+  // 반환값: 이 메시지가 속한 앨범의 전달이 끝나면 완료되는 Promise
+  add(message: TelegramMessage, groupedId: string): Promise<void> {
+    const chatId = message.chatId ?? 'unknown'
+    const key = `${chatId}:${groupedId}`
+    const album = this.pending.get(key)
+
+    if (album) {
+      // 마지막 메시지 도착 후 windowMs 동안 기다림
+      clearTimeout(album.timer)
+      album.messages.push(message)
+      album.timer = setTimeout(() => this.flush(key), this.windowMs)
+      return album.delivered
+    }
+
+    // 같은 채팅의 다른 앨범이 대기 중이면 순서 유지를 위해 먼저 보냄
+    this.flushChat(chatId)
+    let resolveDelivered = () => {}
+    const delivered = new Promise<void>((resolve) => {
+      resolveDelivered = resolve
+    })
+    this.pending.set(key, {
+      chatId,
+      messages: [message],
+      timer: setTimeout(() => this.flush(key), this.windowMs),
+      delivered,
+      resolveDelivered,
+    })
+    return delivered
+  }
+
+  // 해당 채팅에서 대기 중인 앨범을 즉시 전달 (뒤따르는 메시지보다 먼저 보내기 위함)
+  flushChat(chatId: string | undefined): void {
+    for (const [key, album] of this.pending) {
+      if (album.chatId === (chatId ?? 'unknown')) this.flush(key)
+    }
+  }
+
+  private flush(key: string): void {
+    const album = this.pending.get(key)
+    if (!album) return
+
+    clearTimeout(album.timer)
+    this.pending.delete(key)
+
+    const messages = album.messages.sort((a, b) => a.id - b.id)
+    console.log(`[Album] 앨범 전달: ${key} (${messages.length}개 메시지)`)
+    const delivery = this.handler(messages)
+      .catch((error) => {
+        console.error('[Album] 앨범 전달 실패:', error)
+      })
+      .finally(() => {
+        this.inFlight.delete(delivery)
+        album.resolveDelivered()
+      })
+    this.inFlight.add(delivery)
+  }
+
+  // 대기 중인 앨범을 모두 보내고 전달이 끝날 때까지 기다림 (백필, 종료 시)
+  async drain(): Promise<void> {
+    for (const key of [...this.pending.keys()]) this.flush(key)
+    await Promise.all(this.inFlight)
+  }
+}
@@ -0,0 +1,74 @@
+import { readJsonFile, writeJsonFileAtomic } from "../utils/jsonFile";
+
+interface ChannelCheckpoint {
+  // 이 ID까지는 빠짐없이 전달됨 (폴링/따라잡기가 순서대로 확인한 지점)
+  lastId: number;
+  // lastId 이후 실시간(푸시)으로 먼저 전달된 메시지 ID (사이 구간은 폴링이 채움)
+  delivered: number[];
+}
+
+/**
+ * 채널별 전달 상태를 파일에 저장
+ * (재시작 후에도 중복 전달/누락 없이 이어서 처리하기 위함)
+ */
+export class CheckpointStore {
+  private filePath: string;
+  private checkpoints: Record<string, ChannelCheckpoint>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const stored = readJsonFile<Record<string, number | ChannelCheckpoint>>(
+      filePath,
+      {},
+    );
+    // 이전 형식(채널 ID -> 마지막 메시지 ID)도 읽음
+    this.checkpoints = Object.fromEntries(
+      Object.entries(stored).map(([channelId, value]) => [
+        channelId,
+        typeof value === "number" ? { lastId: value, delivered: [] } : value,
+      ]),
+    );
+    console.log(
+      `[Checkpoint] ${Object.keys(this.checkpoints).length}개 채널 체크포인트 로드됨 (${filePath})`,
+    );
+  }
+
+  get(channelId: string): number | undefined {
+    return this.checkpoints[channelId]?.lastId;
+  }
+
+  // 이미 전달된 메시지인지 (체크포인트 이하이거나 푸시로 먼저 전달됨)
+  isDelivered(channelId: string, messageId: number): boolean {
+    const checkpoint = this.checkpoints[channelId];
+    if (!checkpoint) return false;
+    return (
+      messageId <= checkpoint.lastId || checkpoint.delivered.includes(messageId)
+    );
+  }
+
+  // 순서대로 확인한 지점까지 갱신 (기존 값보다 큰 경우에만, 동시 처리 시 역행 방지)
+  advance(channelId: string, messageId: number): void {
+    const current = this.checkpoints[channelId];
+    if (current && current.lastId >= messageId) return;
+
+    this.checkpoints[channelId] = {
+      lastId: messageId,
+      delivered: (current?.delivered ?? []).filter((id) => id > messageId),
+    };
+    this.save();
+  }
+
+  // 푸시로 전달한 메시지 기록 (앞쪽에 빈 구간이 있을 수 있으므로 체크포인트는 그대로)
+  markDelivered(channelId: string, messageId: number): void {
+    const current = this.checkpoints[channelId];
+    // 체크포인트가 없으면 폴링이 시작 지점을 정함
+    if (!current || this.isDelivered(channelId, messageId)) return;
+
+    current.delivered.push(messageId);
+    this.save();
+  }
+
+  private save(): void {
+    writeJsonFileAtomic(this.filePath, this.checkpoints);
+  }
+}
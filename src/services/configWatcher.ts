@@ -0,0 +1,60 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { ChannelMapping, loadConfigFile } from '../config'
+
+type ReloadHandler = (mappings: ChannelMapping[]) => Promise<void>
+
+// 저장 중 여러 번 발생하는 변경 이벤트를 하나로 묶는 대기 시간
+const RELOAD_DEBOUNCE_MS = 500
+
+/**
+ * 설정 파일이 바뀌면 다시 읽어서 적용 (텔레그램 연결은 유지)
+ * 검증에 실패하면 에러 위치를 로그로 남기고 기존 설정을 그대로 사용
+ */
+export class ConfigWatcher {
+  private filePath: string
+  private handler: ReloadHandler
+  private reloadTimer: NodeJS.Timeout | null = null
+
+  constructor(filePath: string, handler: ReloadHandler) {
+    this.filePath = filePath
+    this.handler = handler
+  }
+
+  start(): void {
+    // 에디터가 새 파일로 바꿔치기하며 저장해도 놓치지 않도록 fs.watch 대신 stat 폴링 사용
+    fs.watchFile(this.filePath, { interval: 1000 }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return
+      if (this.reloadTimer) clearTimeout(this.reloadTimer)
+      this.reloadTimer = setTimeout(() => this.reload(), RELOAD_DEBOUNCE_MS)
+    })
+    console.log(`[Config] 설정 파일 변경 감시 중: ${this.filePath}`)
+  }
+
+  stop(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer)
+    fs.unwatchFile(this.filePath)
+  }
+
+  private async reload(): Promise<void> {
+    this.reloadTimer = null
+    let mappings: ChannelMapping[]
+    try {
+      mappings = loadConfigFile(this.filePath)
+    } catch (error) {
+      console.error(
+        `[Config] ${path.basename(this.filePath)} 변경을 적용하지 않고 기존 설정을 유지합니다.\n${(error as Error).message}`,
+      )
+      return
+    }
+
+    console.log(`[Config] 설정 파일 변경 적용: ${mappings.length}개 매핑`)
+    try {
+      await this.handler(mappings)
+    } catch (error) {
+      console.error(
+        `[Config] ${path.basename(this.filePath)} 변경을 적용하지 않고 기존 설정을 유지합니다.\n${(error as Error).message}`,
+      )
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { ChannelMapping, ConfigError, validateChannelMappings } from '../config'
+import { metrics } from './metrics'
+import type { RuntimeStateStore } from './runtimeState'
+import type { TelegramListener } from './telegramListener'
+import type { WebhookForwarder } from './webhookForwarder'
+
+export interface ControlCommandOptions {
+  listener: TelegramListener
+  forwarder: WebhookForwarder
+  state: RuntimeStateStore
+  // 런타임 상태를 반영해 매핑을 다시 적용 (포워더/리스너 갱신)
+  applyMappings: () => Promise<void>
+}
+
+const HELP = [
+  '사용 가능한 명령:',
+  '/status - 실행 상태',
+  '/mappings - 매핑 목록',
+  '/pause <채널> - 전달 일시 중지',
+  '/resume <채널> - 전달 재개',
+  '/add <채널> <Discord 웹훅 URL> - 매핑 추가',
+  '/remove <채널> - 채널의 매핑 모두 제거',
+  '/test <채널> - 채널의 최신 게시물을 매핑된 목적지로 전송',
+].join('\n')
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}일 ${hours}시간`
+  if (hours > 0) return `${hours}시간 ${minutes}분`
+  return `${minutes}분`
+}
+
+function normalizeChannel(channel: string): string {
+  return channel.trim().replace(/^@/, '').toLowerCase()
+}
+
+/**
+ * Saved Messages로 받은 관리 명령 처리 (답장할 텍스트를 반환)
+ * 매핑 변경/일시 중지는 런타임 상태 파일에 저장되어 재시작 후에도 유지됨
+ */
+export class ControlCommands {
+  private listener: TelegramListener
+  private forwarder: WebhookForwarder
+  private state: RuntimeStateStore
+  private applyMappings: () => Promise<void>
+
+  constructor(options: ControlCommandOptions) {
+    this.listener = options.listener
+    this.forwarder = options.forwarder
+    this.state = options.state
+    this.applyMappings = options.applyMappings
+  }
+
+  async handle(text: string): Promise<string> {
+    const [command, ...args] = text.trim().split(/\s+/)
+    // 채널 제목에 공백이 있을 수 있으므로 나머지 인자는 이어붙임
+    const channel = args.join(' ')
+
+    switch (command.toLowerCase()) {
+      case '/status':
+        return this.status()
+      case '/mappings':
+        return this.listMappings()
+      case '/pause':
+        return this.pause(channel)
+      case '/resume':
+        return this.resume(channel)
+      case '/add':
+        return this.add(args.slice(0, -1).join(' '), args[args.length - 1])
+      case '/remove':
+        return this.remove(channel)
+      case '/test':
+        return this.test(channel)
+      case '/help':
+        return HELP
+      default:
+        return `❓ 알 수 없는 명령: ${command}\n\n${HELP}`
+    }
+  }
+
+  private status(): string {
+    const mappings = this.forwarder.getMappings()
+    const paused = this.state.getPaused()
+    const lastForwardAt = metrics.getLastForwardAt()
+
+    return [
+      '📊 Courier 상태',
+      `가동 시간: ${formatDuration(process.uptime())}`,
+      `텔레그램: ${this.listener.isConnected() ? '연결됨' : '연결 끊김'}`,
+      `매핑: ${mappings.length}개${paused.length > 0 ? ` (일시 중지: ${paused.join(', ')})` : ''}`,
+      `전송 대기: ${this.forwarder.getQueueDepth()}건`,
+      `마지막 전달: ${
+        lastForwardAt
+          ? `${new Date(lastForwardAt).toISOString()} (${formatDuration((Date.now() - lastForwardAt) / 1000)} 전)`
+          : '없음'
+      }`,
+    ].join('\n')
+  }
+
+  private listMappings(): string {
+    const mappings = this.forwarder.getMappings()
+    if (mappings.length === 0) return '📭 매핑이 없습니다.'
+
+    const lines = mappings.map((mapping) => {
+      const paused = this.state.isPaused(mapping.telegramChannel) ? ' ⏸️' : ''
+      return `• ${mapping.telegramChannel} -> [${mapping.type ?? 'discord'}] ${this.forwarder.getDestinationLabel(mapping)}${paused}`
+    })
+    return [`📋 매핑 ${mappings.length}개`, ...lines].join('\n')
+  }
+
+  private pause(channel: string): string {
+    const target = this.findChannel(channel)
+    if (!target) return this.unknownChannel(channel)
+
+    this.state.pause(target)
+    console.log(`[Forwarder] 전달 일시 중지: ${target}`)
+    return `⏸️ ${target} 전달을 일시 중지했습니다. (/resume ${target} 로 재개)`
+  }
+
+  private resume(channel: string): string {
+    const target = this.findChannel(channel)
+    if (!target) return this.unknownChannel(channel)
+    if (!this.state.isPaused(target)) return `ℹ️ ${target}은(는) 일시 중지 상태가 아닙니다.`
+
+    this.state.resume(target)
+    console.log(`[Forwarder] 전달 재개: ${target}`)
+    return `▶️ ${target} 전달을 재개했습니다.`
+  }
+
+  private async add(channel: string, webhookUrl: string | undefined): Promise<string> {
+    if (!channel || !webhookUrl) return '사용법: /add <채널> <Discord 웹훅 URL>'
+
+    let mapping: ChannelMapping
+    try {
+      ;[mapping] = validateChannelMappings([{ telegramChannel: channel, webhookUrl }], '/add', 'mapping')
+    } catch (error) {
+      if (error instanceof ConfigError) return `⚠️ ${error.issues.join('\n')}`
+      throw error
+    }
+
+    // 확인할 수 없는 채널을 저장하면 다음 시작이 실패하므로 저장하기 전에 확인
+    try {
+      await this.listener.checkChannels([mapping.telegramChannel])
+    } catch (error) {
+      return `⚠️ 매핑을 추가하지 않았습니다.\n${(error as Error).message}`
+    }
+
+    this.state.add(mapping)
+    await this.applyMappings()
+
+    const resolved = this.listener.getChannelId(mapping.telegramChannel)
+    return `✅ 매핑 추가: ${channel}${resolved ? ` (id=${resolved})` : ''} -> ${this.forwarder.getDestinationLabel(mapping)}`
+  }
+
+  private async remove(channel: string): Promise<string> {
+    const target = this.findChannel(channel)
+    if (!target) return this.unknownChannel(channel)
+
+    const count = this.forwarder.getMappings().filter((m) => m.telegramChannel === target).length
+    this.state.remove(target)
+    await this.applyMappings()
+    return `🗑️ ${target} 매핑 ${count}개를 제거했습니다.`
+  }
+
+  private async test(channel: string): Promise<string> {
+    const target = this.findChannel(channel)
+    if (!target) return this.unknownChannel(channel)
+
+    const message = await this.listener.fetchLatestMessage(target)
+    if (!message) return `📭 ${target}에 전송할 게시물이 없습니다.`
+
+    // 일시 중지/필터와 관계없이 매핑된 목적지마다 결과를 확인
+    const mappings = this.forwarder.getMappings().filter((m) => m.telegramChannel === target)
+    const results = await Promise.all(
+      mappings.map(async (mapping) => {
+        const label = this.forwarder.getDestinationLabel(mapping)
+        try {
+          await this.forwarder.deliver(mapping, [message])
+          return `✅ ${label}`
+        } catch (error) {
+          return `❌ ${label}: ${error instanceof Error ? error.message : String(error)}`
+        }
+      }),
+    )
+    return [`🧪 ${target}#${message.id} 테스트 전송`, ...results].join('\n')
+  }
+
+  // 입력한 채널명에 해당하는 매핑의 telegramChannel ("@" 유무, 대소문자 무시)
+  private findChannel(channel: string): string | undefined {
+    if (!channel) return undefined
+    const normalized = normalizeChannel(channel)
+    return this.forwarder.getMappings().find((m) => normalizeChannel(m.telegramChannel) === normalized)?.telegramChannel
+  }
+
+  private unknownChannel(channel: string): string {
+    if (!channel) return '채널을 지정하세요. (/mappings 로 목록 확인)'
+    return `❓ 매핑되지 않은 채널: ${channel} (/mappings 로 목록 확인)`
+  }
+}
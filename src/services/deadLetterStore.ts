@@ -0,0 +1,68 @@
+import type { ChannelMapping } from '../config'
+import type { TelegramMessage } from './telegramListener'
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile'
+
+// rawMessage(Api.Message)는 직렬화할 수 없으므로 재전송 시 텔레그램에서 다시 가져옴
+// (변환 전 원본이므로 엔티티도 다시 가져온 rawMessage.entities를 사용)
+export type DeadLetterMessage = Omit<TelegramMessage, 'media' | 'rawMessage' | 'entities'>
+
+export interface DeadLetter {
+  id: string
+  failedAt: string
+  // 게시물 단위로 보관 (앨범이면 여러 메시지를 한 번에 재전송)
+  messages: DeadLetterMessage[]
+  mapping: ChannelMapping
+  error: string
+  status?: number
+  attempts: number
+}
+
+// 이전 형식은 메시지 하나씩 보관
+type StoredDeadLetter = DeadLetter | (Omit<DeadLetter, 'messages'> & { message: DeadLetterMessage })
+
+/**
+ * 최종적으로 전송에 실패한 메시지를 파일에 보관
+ * (설정을 고친 뒤 `courier dlq replay`로 재전송)
+ */
+export class DeadLetterStore {
+  private filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  list(): DeadLetter[] {
+    return readJsonFile<StoredDeadLetter[]>(this.filePath, []).map((letter) => {
+      if ('messages' in letter) return letter
+      const { message, ...rest } = letter
+      return { ...rest, messages: [message] }
+    })
+  }
+
+  add(entry: Omit<DeadLetter, 'id' | 'failedAt'>): DeadLetter {
+    const [first] = entry.messages
+    const letter: DeadLetter = {
+      id: `${first.chatId ?? 'unknown'}-${first.id}-${Date.now()}`,
+      failedAt: new Date().toISOString(),
+      ...entry,
+    }
+    writeJsonFileAtomic(this.filePath, [...this.list(), letter])
+    console.log(`[DLQ] 전송 실패 메시지 보관: ${letter.id}`)
+    return letter
+  }
+
+  update(letter: DeadLetter): void {
+    writeJsonFileAtomic(
+      this.filePath,
+      this.list().map((existing) => (existing.id === letter.id ? letter : existing)),
+    )
+  }
+
+  // ids를 생략하면 전부 삭제
+  remove(ids?: string[]): number {
+    const letters = this.list()
+    const remaining = ids ? letters.filter((letter) => !ids.includes(letter.id)) : []
+    writeJsonFileAtomic(this.filePath, remaining)
+    return letters.length - remaining.length
+  }
+}
@@ -0,0 +1,178 @@
+import axios, { AxiosResponse } from 'axios'
+
+type RequestFactory<T> = () => Promise<AxiosResponse<T>>
+
+// 재시도해도 소용없는 실패인지 구분하기 위해 상태 코드와 시도 횟수를 함께 보관
+export class DeliveryError extends Error {
+  readonly status?: number
+  readonly attempts: number
+  readonly permanent: boolean
+
+  constructor(message: string, options: { status?: number; attempts: number; permanent: boolean; cause?: unknown }) {
+    super(message, { cause: options.cause })
+    this.name = 'DeliveryError'
+    this.status = options.status
+    this.attempts = options.attempts
+    this.permanent = options.permanent
+  }
+}
+
+const MAX_ATTEMPTS = 5
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 30_000
+// 429는 시도 횟수와 별도로 세고, 이 횟수나 대기 시간 합계를 넘으면 실패로 처리 (계속 429만 주는 목적지가 큐를 막지 않도록)
+const MAX_RATE_LIMIT_RETRIES = 20
+const MAX_RATE_LIMIT_WAIT_MS = 10 * 60_000
+// 요청 시간 초과 (응답 없이 끊긴 경우도 다시 보내 봄)
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT']
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function headerNumber(headers: Record<string, unknown> | undefined, name: string): number | undefined {
+  const value = headers?.[name]
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * 웹훅별 FIFO 전송 큐
+ * - 같은 목적지로 가는 요청은 들어온 순서대로 하나씩 전송
+ * - 429 응답의 retry_after, X-RateLimit-* 헤더를 지켜서 대기
+ * - 5xx/네트워크 오류는 지수 백오프로 재시도
+ */
+export class DeliveryQueue {
+  // 목적지별 마지막 작업 (다음 작업은 이 작업이 끝난 뒤 실행)
+  private tails: Map<string, Promise<unknown>> = new Map()
+  // 목적지별 대기 중인 작업 수
+  private depths: Map<string, number> = new Map()
+  // 목적지별 레이트 리밋 해제 시각
+  private blockedUntil: Map<string, number> = new Map()
+  // 전역 레이트 리밋 해제 시각 (X-RateLimit-Global)
+  private globalBlockedUntil = 0
+
+  enqueue<T>(key: string, label: string, request: RequestFactory<T>): Promise<AxiosResponse<T>> {
+    const previous = this.tails.get(key) ?? Promise.resolve()
+    const run = previous.then(() => this.execute(key, label, request))
+    const tail = run.catch(() => undefined)
+
+    this.tails.set(key, tail)
+    this.depths.set(key, (this.depths.get(key) ?? 0) + 1)
+
+    tail.then(() => {
+      const depth = (this.depths.get(key) ?? 1) - 1
+      if (depth > 0) {
+        this.depths.set(key, depth)
+      } else {
+        this.depths.delete(key)
+      }
+      if (this.tails.get(key) === tail) this.tails.delete(key)
+    })
+
+    return run
+  }
+
+  getDepth(key?: string): number {
+    if (key !== undefined) return this.depths.get(key) ?? 0
+    let total = 0
+    for (const depth of this.depths.values()) total += depth
+    return total
+  }
+
+  private async execute<T>(key: string, label: string, request: RequestFactory<T>): Promise<AxiosResponse<T>> {
+    let attempts = 0
+    let rateLimited = 0
+    let rateLimitWaitMs = 0
+
+    while (true) {
+      await this.waitForRateLimit(key)
+      attempts++
+
+      try {
+        const response = await request()
+        this.updateRateLimit(key, response.headers as Record<string, unknown>)
+        return response
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw new DeliveryError(`${label} 전송 준비 실패: ${String(error)}`, {
+            attempts,
+            permanent: true,
+            cause: error,
+          })
+        }
+
+        const status = error.response?.status
+        const headers = error.response?.headers as Record<string, unknown> | undefined
+
+        // 429: Discord가 알려준 시간만큼 기다린 뒤 재시도 (시도 횟수에 포함하지 않음)
+        if (status === 429) {
+          const body = error.response?.data as { retry_after?: number; global?: boolean } | undefined
+          const retryAfter = body?.retry_after ?? headerNumber(headers, 'retry-after') ?? 1
+          const waitMs = Math.ceil(retryAfter * 1000)
+          rateLimited++
+          rateLimitWaitMs += waitMs
+          if (rateLimited > MAX_RATE_LIMIT_RETRIES || rateLimitWaitMs > MAX_RATE_LIMIT_WAIT_MS) {
+            throw new DeliveryError(
+              `${label} 전송 실패 (레이트 리밋 ${rateLimited}회, 대기 ${Math.round(rateLimitWaitMs / 1000)}초)`,
+              { status, attempts, permanent: false, cause: error },
+            )
+          }
+          if (body?.global || headers?.['x-ratelimit-global']) {
+            this.globalBlockedUntil = Date.now() + waitMs
+          } else {
+            this.blockedUntil.set(key, Date.now() + waitMs)
+          }
+          console.warn(`[Queue] 레이트 리밋 (${label}), ${waitMs}ms 후 재시도`)
+          attempts--
+          continue
+        }
+
+        this.updateRateLimit(key, headers)
+
+        // 시간 초과 / 네트워크 오류 / 5xx만 일시적 실패로 간주
+        const timedOut = error.code !== undefined && TIMEOUT_CODES.includes(error.code)
+        const transient = timedOut || status === undefined || status >= 500
+        if (!transient) {
+          throw new DeliveryError(`${label} 전송 실패 (HTTP ${status})`, {
+            status,
+            attempts,
+            permanent: true,
+            cause: error,
+          })
+        }
+
+        if (attempts >= MAX_ATTEMPTS) {
+          throw new DeliveryError(`${label} 전송 실패 (${attempts}회 시도): ${status ?? error.code ?? error.message}`, {
+            status,
+            attempts,
+            permanent: false,
+            cause: error,
+          })
+        }
+
+        const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+        console.warn(
+          `[Queue] 일시적 전송 실패 (${label}, ${status ?? error.code ?? error.message}), ${backoffMs}ms 후 재시도 (${attempts}/${MAX_ATTEMPTS})`,
+        )
+        await sleep(backoffMs)
+      }
+    }
+  }
+
+  private async waitForRateLimit(key: string): Promise<void> {
+    const until = Math.max(this.blockedUntil.get(key) ?? 0, this.globalBlockedUntil)
+    const waitMs = until - Date.now()
+    if (waitMs > 0) await sleep(waitMs)
+  }
+
+  // 남은 요청 수가 0이면 버킷이 리셋될 때까지 다음 요청을 보류
+  private updateRateLimit(key: string, headers: Record<string, unknown> | undefined): void {
+    const remaining = headerNumber(headers, 'x-ratelimit-remaining')
+    const resetAfter = headerNumber(headers, 'x-ratelimit-reset-after')
+    if (remaining === 0 && resetAfter !== undefined) {
+      this.blockedUntil.set(key, Date.now() + Math.ceil(resetAfter * 1000))
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { AxiosResponse } from 'axios'
+import { setRequestSender, WebhookRequest } from '../destinations/http'
+
+// 출력/기록에는 웹훅 토큰을 남기지 않음
+function redactUrl(value: string): string {
+  const url = new URL(value)
+  const discord = url.pathname.match(/^(.*\/webhooks\/\d+)\/[^/]+(.*)$/)
+  url.pathname = discord ? `${discord[1]}/***${discord[2]}` : url.pathname.replace(/\/[^/]{16,}/g, '/***')
+  return url.toString()
+}
+
+// 실제 요청 대신 보낼 내용을 출력 (multipart는 payload_json과 첨부 메타데이터)
+function describeRequest(request: WebhookRequest): Record<string, unknown> {
+  const files = request.files ?? []
+  return {
+    method: request.method.toUpperCase(),
+    url: redactUrl(request.url),
+    contentType: files.length > 0 ? 'multipart/form-data' : request.body === undefined ? undefined : 'application/json',
+    headers: request.headers && Object.keys(request.headers).length > 0 ? Object.keys(request.headers) : undefined,
+    body: request.body,
+    files:
+      files.length > 0
+        ? files.map((file, index) => ({
+            field: `files[${index}]`,
+            filename: file.name,
+            contentType: file.contentType,
+            size: file.buffer.length,
+          }))
+        : undefined,
+  }
+}
+
+/**
+ * dry-run: 목적지 HTTP 요청을 보내지 않고 콘솔에 출력하거나 JSONL 파일에 기록
+ * 응답은 성공으로 처리하고 가짜 메시지 ID를 돌려줌 (수정/삭제 동기화까지 확인 가능)
+ * @param outputPath 지정하면 요청을 한 줄씩 이 파일에 추가
+ */
+export function enableDryRun(outputPath?: string): void {
+  let sequence = 0
+
+  setRequestSender(async <T>(request: WebhookRequest): Promise<AxiosResponse<T>> => {
+    const described = { at: new Date().toISOString(), ...describeRequest(request) }
+    if (outputPath) {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+      fs.appendFileSync(outputPath, JSON.stringify(described) + '\n')
+      console.log(`[DryRun] ${request.method.toUpperCase()} ${redactUrl(request.url)} -> ${outputPath}`)
+    } else {
+      console.log(`[DryRun] ${JSON.stringify(described, null, 2)}`)
+    }
+
+    return {
+      status: request.method === 'delete' ? 204 : 200,
+      statusText: 'OK (dry-run)',
+      headers: {},
+      config: {} as AxiosResponse['config'],
+      data: (request.method === 'delete' ? undefined : { id: `dry-run-${++sequence}` }) as T,
+    }
+  })
+
+  console.log(`[DryRun] 목적지로 전송하지 않고 ${outputPath ? `${outputPath}에 기록` : '콘솔에 출력'}합니다.`)
+}
@@ -0,0 +1,64 @@
+import * as http from 'http'
+import { metrics } from './metrics'
+
+// 준비 상태 항목별 결과 (모두 true여야 /readyz가 200)
+export type ReadinessChecks = Record<string, boolean>
+
+/**
+ * 상태 확인용 HTTP 서버
+ * - /healthz: 프로세스가 살아 있으면 200
+ * - /readyz: 텔레그램 연결, 채널 확인, 최근 전달 성공 여부 (하나라도 실패하면 503)
+ * - /metrics: Prometheus 지표
+ */
+export class HealthServer {
+  private port: number
+  private getReadiness: () => ReadinessChecks
+  private server: http.Server | null = null
+
+  constructor(port: number, getReadiness: () => ReadinessChecks) {
+    this.port = port
+    this.getReadiness = getReadiness
+  }
+
+  start(): void {
+    this.server = http.createServer((req, res) => this.handle(req, res))
+    this.server.on('error', (error) => console.error('[Health] HTTP 서버 에러:', error))
+    this.server.listen(this.port, () => {
+      console.log(`[Health] HTTP 서버 시작: 포트 ${this.port} (/healthz, /readyz, /metrics)`)
+    })
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) return resolve()
+      this.server.close(() => resolve())
+      // keep-alive 연결 때문에 종료가 늦어지지 않도록
+      this.server.closeAllConnections()
+    })
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname
+
+    if (pathname === '/healthz') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' }).end('ok\n')
+      return
+    }
+
+    if (pathname === '/readyz') {
+      const checks = this.getReadiness()
+      const ready = Object.values(checks).every(Boolean)
+      res
+        .writeHead(ready ? 200 : 503, { 'Content-Type': 'application/json; charset=utf-8' })
+        .end(JSON.stringify({ ready, checks }) + '\n')
+      return
+    }
+
+    if (pathname === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }).end(metrics.render())
+      return
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('not found\n')
+  }
+}
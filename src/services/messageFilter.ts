@@ -0,0 +1,73 @@
+import { Api } from 'telegram/tl'
+import type { FilterRules, MediaKind } from '../config'
+import type { TelegramMessage } from './telegramListener'
+import { compilePattern } from '../utils/pattern'
+
+export function getMediaKind(message: TelegramMessage): MediaKind {
+  const media = message.media
+  // 링크 미리보기는 본문 텍스트의 일부로 취급
+  if (!media || media instanceof Api.MessageMediaWebPage) return 'none'
+  if (media instanceof Api.MessageMediaPhoto) return 'photo'
+
+  if (media instanceof Api.MessageMediaDocument && media.document instanceof Api.Document) {
+    const attributes = media.document.attributes
+    if (attributes.some((attr) => attr instanceof Api.DocumentAttributeSticker)) return 'sticker'
+    if (
+      media.document.mimeType.startsWith('video/') ||
+      attributes.some((attr) => attr instanceof Api.DocumentAttributeVideo || attr instanceof Api.DocumentAttributeAnimated)
+    ) {
+      return 'video'
+    }
+    return 'document'
+  }
+
+  return 'other'
+}
+
+/**
+ * 매핑의 필터 규칙에 걸리는지 확인
+ * @returns 제외 사유 (전달해야 하면 null)
+ *
+ * 서비스 메시지(고정 알림, 입장 알림 등)는 리스너 단계에서 항상 제외됨
+ */
+export function findDropReason(rules: FilterRules | undefined, messages: TelegramMessage[]): string | null {
+  if (!rules) return null
+
+  // 앨범은 캡션이 달린 메시지 기준으로 텍스트 규칙을 적용
+  const captionMessage = messages.find((m) => m.text) ?? messages[0]
+  const text = captionMessage.text
+  const lowerText = text.toLowerCase()
+
+  if (rules.skipForwarded && captionMessage.rawMessage.fwdFrom) {
+    return 'skipForwarded'
+  }
+  if (rules.skipReplies && captionMessage.rawMessage.replyTo?.replyToMsgId) {
+    return 'skipReplies'
+  }
+
+  if (rules.mediaTypes) {
+    for (const message of messages) {
+      const kind = getMediaKind(message)
+      if (!rules.mediaTypes.includes(kind)) return `mediaTypes (${kind})`
+    }
+  }
+
+  const excludedKeyword = rules.excludeKeywords?.find((keyword) => lowerText.includes(keyword.toLowerCase()))
+  if (excludedKeyword) return `excludeKeywords ("${excludedKeyword}")`
+
+  const excludedPattern = rules.excludePatterns?.find((pattern) => compilePattern(pattern).test(text))
+  if (excludedPattern) return `excludePatterns (${excludedPattern})`
+
+  if (
+    rules.includeKeywords?.length &&
+    !rules.includeKeywords.some((keyword) => lowerText.includes(keyword.toLowerCase()))
+  ) {
+    return 'includeKeywords (일치하는 키워드 없음)'
+  }
+
+  if (rules.includePatterns?.length && !rules.includePatterns.some((pattern) => compilePattern(pattern).test(text))) {
+    return 'includePatterns (일치하는 패턴 없음)'
+  }
+
+  return null
+}
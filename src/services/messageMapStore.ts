@@ -0,0 +1,57 @@
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile'
+
+// 텔레그램 메시지 하나가 전달된 Discord 메시지
+export interface ForwardedMessage {
+  telegramChannel: string
+  webhookUrl: string
+  discordMessageId: string
+}
+
+// 수정/삭제 동기화는 최근 메시지에만 의미가 있으므로 오래된 항목은 정리
+const MAX_ENTRIES = 5000
+
+/**
+ * 텔레그램 (채팅 ID, 메시지 ID) -> Discord (웹훅, 메시지 ID) 매핑 저장소
+ */
+export class MessageMapStore {
+  private filePath: string
+  private entries: Record<string, ForwardedMessage[]>
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.entries = readJsonFile<Record<string, ForwardedMessage[]>>(filePath, {})
+  }
+
+  get(chatId: string, messageId: number): ForwardedMessage[] {
+    return this.entries[this.key(chatId, messageId)] ?? []
+  }
+
+  add(chatId: string, messageId: number, forwarded: ForwardedMessage): void {
+    const key = this.key(chatId, messageId)
+    // 다시 추가된 키가 가장 최근 항목이 되도록 삭제 후 재삽입
+    const existing = this.entries[key] ?? []
+    delete this.entries[key]
+    this.entries[key] = [...existing, forwarded]
+
+    const keys = Object.keys(this.entries)
+    for (const oldKey of keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES))) {
+      delete this.entries[oldKey]
+    }
+    this.save()
+  }
+
+  remove(chatId: string, messageId: number): void {
+    const key = this.key(chatId, messageId)
+    if (!(key in this.entries)) return
+    delete this.entries[key]
+    this.save()
+  }
+
+  private key(chatId: string, messageId: number): string {
+    return `${chatId}:${messageId}`
+  }
+
+  private save(): void {
+    writeJsonFileAtomic(this.filePath, this.entries)
+  }
+}
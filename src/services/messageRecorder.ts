@@ -0,0 +1,98 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { BinaryReader } from 'telegram/extensions'
+import { Api } from 'telegram/tl'
+import type { TelegramMessage } from './telegramListener'
+import type { ForwardPost } from '../destinations'
+import { getMediaInfo, MediaFile } from '../utils/media'
+
+// 픽스처 파일 한 줄
+interface RecordedMessage {
+  recordedAt: string
+  message: Omit<TelegramMessage, 'rawMessage' | 'media' | 'entities'>
+  // Api.Message의 TL 직렬화 (base64, 미디어/엔티티/groupedId 포함)
+  raw: string
+  // 픽스처 디렉터리 기준 미디어 파일 경로
+  media?: { file: string; name: string; contentType: string }
+}
+
+export interface ReplayMessage {
+  message: TelegramMessage
+  // 기록 당시 받은 미디어 (파일이 없으면 빈 배열)
+  media: MediaFile[]
+}
+
+const MESSAGES_FILE = 'messages.jsonl'
+
+/**
+ * 매핑된 채널에서 받은 게시물과 미디어를 픽스처 디렉터리에 기록 (replay로 오프라인 재현)
+ * - messages.jsonl: 메시지 한 줄씩 (수신 순서)
+ * - media/: 메시지별 미디어 파일
+ */
+export class MessageRecorder {
+  private dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+    console.log(`[Record] 수신 메시지 기록 중: ${dir}`)
+  }
+
+  record(post: ForwardPost): void {
+    for (const message of post.messages) this.recordMessage(message, post)
+  }
+
+  // 줄은 동기적으로 써서 수신 순서를 유지하고, 미디어는 뒤에서 받음 (전달을 지연시키지 않음)
+  private recordMessage(message: TelegramMessage, post: ForwardPost): void {
+    const info = getMediaInfo(message)
+    const file = info ? path.join('media', `${message.chatId ?? 'unknown'}_${message.id}_${path.basename(info.name)}`) : undefined
+    const { rawMessage, media, entities, ...fields } = message
+
+    const recorded: RecordedMessage = {
+      recordedAt: new Date().toISOString(),
+      message: fields,
+      raw: rawMessage.getBytes().toString('base64'),
+      media: info && file ? { file, name: info.name, contentType: info.contentType } : undefined,
+    }
+    fs.mkdirSync(this.dir, { recursive: true })
+    fs.appendFileSync(path.join(this.dir, MESSAGES_FILE), JSON.stringify(recorded) + '\n')
+
+    if (file) this.saveMedia(message, post, file)
+  }
+
+  // 목적지 전송과 같은 다운로드를 사용 (미디어를 두 번 받지 않음)
+  private async saveMedia(message: TelegramMessage, post: ForwardPost, file: string): Promise<void> {
+    try {
+      const [downloaded] = await post.downloadMedia(message)
+      if (!downloaded) return
+      const filePath = path.join(this.dir, file)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, downloaded.buffer)
+    } catch (error) {
+      console.error(`[Record] 미디어 기록 실패 (${file}):`, error)
+    }
+  }
+}
+
+// 기록한 픽스처를 TelegramMessage로 복원
+export function loadRecordedMessages(dir: string): ReplayMessage[] {
+  const filePath = path.join(dir, MESSAGES_FILE)
+  if (!fs.existsSync(filePath)) throw new Error(`${filePath}이(가) 없습니다.`)
+
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const recorded = JSON.parse(line) as RecordedMessage
+      const rawMessage = new BinaryReader(Buffer.from(recorded.raw, 'base64')).tgReadObject() as Api.Message
+      const mediaPath = recorded.media && path.join(dir, recorded.media.file)
+
+      return {
+        message: { ...recorded.message, media: rawMessage.media, rawMessage },
+        media:
+          recorded.media && mediaPath && fs.existsSync(mediaPath)
+            ? [{ buffer: fs.readFileSync(mediaPath), name: recorded.media.name, contentType: recorded.media.contentType }]
+            : [],
+      }
+    })
+}
@@ -0,0 +1,148 @@
+type Labels = Record<string, string>
+
+// 메시지를 받은 경로 (실시간 푸시, 폴링/재시작 후 따라잡기)
+export type MessageSource = 'push' | 'polling'
+
+// 폴링 실패 원인 (FLOOD_WAIT, 그 외)
+export type PollErrorReason = 'flood_wait' | 'error'
+
+// 전달 지연(텔레그램 게시 시각 -> 전송 완료) 히스토그램 구간 (초)
+const LATENCY_BUCKETS = [0.5, 1, 2, 5, 10, 30, 60, 300]
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+class Counter {
+  private name: string
+  private help: string
+  private values: Map<string, { labels: Labels; value: number }> = new Map()
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels)
+    const entry = this.values.get(key) ?? { labels, value: 0 }
+    entry.value += amount
+    this.values.set(key, entry)
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`]
+    for (const { labels, value } of this.values.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`)
+    return lines
+  }
+}
+
+class Histogram {
+  private name: string
+  private help: string
+  private bounds: number[]
+  private values: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> = new Map()
+
+  constructor(name: string, help: string, bounds: number[]) {
+    this.name = name
+    this.help = help
+    this.bounds = bounds
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels)
+    const entry = this.values.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) entry.buckets[index]++
+    })
+    entry.sum += value
+    entry.count++
+    this.values.set(key, entry)
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`]
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Prometheus 텍스트 형식 지표 (/metrics)
+ * 카운터/히스토그램은 기록 시점에 쌓고, 게이지는 조회 시점에 값을 읽음
+ */
+export class Metrics {
+  private received = new Counter('courier_messages_received_total', '매핑된 채널/수신 경로별로 받은 텔레그램 메시지 수')
+  private forwards = new Counter('courier_forwards_total', '목적지별 전달 결과 (success/failure)')
+  private pollErrors = new Counter('courier_poll_errors_total', '채널/원인별 폴링 실패 수 (flood_wait/error)')
+  private mediaBytes = new Counter('courier_media_downloaded_bytes_total', '텔레그램에서 받은 미디어 용량 (바이트)')
+  private latency = new Histogram(
+    'courier_forward_latency_seconds',
+    '텔레그램 게시 시각부터 목적지 전송 완료까지 걸린 시간 (초)',
+    LATENCY_BUCKETS,
+  )
+  private gauges: Map<string, { help: string; collect: () => number }> = new Map()
+  private lastForwardAt: number | null = null
+
+  recordReceived(channel: string, source: MessageSource): void {
+    this.received.inc({ channel, source })
+  }
+
+  // postedAt: 텔레그램 게시 시각 (유닉스 초)
+  recordForward(destination: string, success: boolean, postedAt?: number): void {
+    this.forwards.inc({ destination, result: success ? 'success' : 'failure' })
+    if (!success) return
+
+    this.lastForwardAt = Date.now()
+    if (postedAt !== undefined) {
+      this.latency.observe({ destination }, Math.max(0, Date.now() / 1000 - postedAt))
+    }
+  }
+
+  recordPollError(channel: string, reason: PollErrorReason): void {
+    this.pollErrors.inc({ channel, reason })
+  }
+
+  recordMediaBytes(bytes: number): void {
+    this.mediaBytes.inc({}, bytes)
+  }
+
+  // 마지막으로 전달에 성공한 시각 (ms, 없으면 null)
+  getLastForwardAt(): number | null {
+    return this.lastForwardAt
+  }
+
+  // 조회할 때마다 값을 읽는 게이지 등록 (큐 깊이, 연결 상태 등)
+  registerGauge(name: string, help: string, collect: () => number): void {
+    this.gauges.set(name, { help, collect })
+  }
+
+  render(): string {
+    const lines = [
+      ...this.received.render(),
+      ...this.forwards.render(),
+      ...this.latency.render(),
+      ...this.mediaBytes.render(),
+      ...this.pollErrors.render(),
+    ]
+    for (const [name, { help, collect }] of this.gauges) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${collect()}`)
+    }
+    return lines.join('\n') + '\n'
+  }
+}
+
+// 리스너, 포워더 등 여러 곳에서 기록하므로 프로세스 전체에서 하나만 사용
+export const metrics = new Metrics()
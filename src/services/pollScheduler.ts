@@ -0,0 +1,128 @@
+import { errors } from 'telegram'
+import { metrics } from './metrics'
+
+// 채널 하나를 폴링하고, 푸시로 받지 못해 폴링으로 새로 전달한 메시지 수를 반환
+type PollHandler = (channelName: string) => Promise<number>
+
+interface ChannelPollState {
+  intervalMs: number
+  nextPollAt: number
+  // 마지막으로 푸시(실시간 업데이트)로 메시지를 받은 시각
+  lastPushAt?: number
+}
+
+// 폴링이 누락분을 찾은 채널 (푸시가 안 오는 채널)
+const MIN_INTERVAL_MS = 5_000
+// 빈 폴링이 이어지면 두 배씩 늘려 이 간격까지
+const MAX_INTERVAL_MS = 60_000
+// 푸시가 잘 들어오는 채널은 누락 확인용으로만 천천히
+const PUSH_FLOWING_INTERVAL_MS = 30_000
+// 이 시간 안에 푸시를 받았으면 푸시가 들어오는 중으로 봄
+const PUSH_ACTIVE_WINDOW_MS = 10 * 60_000
+// 채널 수와 관계없이 폴링 요청 사이에 두는 최소 간격 (API 제한 고려)
+const REQUEST_GAP_MS = 1_000
+
+/**
+ * 채널별 폴링 간격 스케줄러
+ * - 폴링으로 누락분을 찾으면 자주, 빈 폴링이 이어지면 점점 드물게 확인
+ * - 푸시가 들어오는 채널은 느리게 확인
+ * - FLOOD_WAIT는 텔레그램이 요구한 시간 동안 모든 폴링을 멈춤 (계정 단위 제한)
+ */
+export class PollScheduler {
+  private poll: PollHandler
+  private channels: Map<string, ChannelPollState> = new Map()
+  private timer: NodeJS.Timeout | null = null
+  private running = false
+  // 폴링 중인지 (이때 채널이 바뀌면 폴링이 끝난 뒤 다시 예약하므로 폴링이 겹치지 않음)
+  private ticking = false
+  private blockedUntil = 0
+
+  constructor(poll: PollHandler) {
+    this.poll = poll
+  }
+
+  // 새 채널은 바로 확인, 빠진 채널은 상태 삭제
+  setChannels(channelNames: string[]): void {
+    for (const channelName of this.channels.keys()) {
+      if (!channelNames.includes(channelName)) this.channels.delete(channelName)
+    }
+    for (const channelName of channelNames) {
+      if (!this.channels.has(channelName)) {
+        this.channels.set(channelName, { intervalMs: MIN_INTERVAL_MS, nextPollAt: Date.now() })
+      }
+    }
+    if (this.running && !this.ticking) this.schedule(0)
+  }
+
+  notePush(channelName: string): void {
+    const state = this.channels.get(channelName)
+    if (state) state.lastPushAt = Date.now()
+  }
+
+  start(): void {
+    this.running = true
+    this.schedule(0)
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.tick(), delayMs)
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null
+    if (!this.running) return
+
+    const now = Date.now()
+    const due = [...this.channels.entries()]
+      .filter(([, state]) => state.nextPollAt <= now)
+      .sort(([, a], [, b]) => a.nextPollAt - b.nextPollAt)[0]
+
+    if (due && now >= this.blockedUntil) {
+      this.ticking = true
+      try {
+        await this.pollChannel(due[0], due[1])
+      } finally {
+        this.ticking = false
+      }
+    }
+    if (!this.running) return
+
+    // 다음 예정 채널까지 대기 (요청 사이 최소 간격, FLOOD_WAIT 해제 시각 보장)
+    const nextAt = Math.min(...[...this.channels.values()].map((state) => state.nextPollAt))
+    const at = Math.max(nextAt, this.blockedUntil, Date.now() + REQUEST_GAP_MS)
+    if (Number.isFinite(at)) this.schedule(at - Date.now())
+  }
+
+  private async pollChannel(channelName: string, state: ChannelPollState): Promise<void> {
+    try {
+      const found = await this.poll(channelName)
+      const pushFlowing = state.lastPushAt !== undefined && Date.now() - state.lastPushAt <= PUSH_ACTIVE_WINDOW_MS
+
+      if (found > 0) {
+        state.intervalMs = MIN_INTERVAL_MS
+      } else if (pushFlowing) {
+        state.intervalMs = PUSH_FLOWING_INTERVAL_MS
+      } else {
+        state.intervalMs = Math.min(state.intervalMs * 2, MAX_INTERVAL_MS)
+      }
+    } catch (error) {
+      if (error instanceof errors.FloodWaitError) {
+        this.blockedUntil = Date.now() + error.seconds * 1000
+        console.warn(`[Telegram] ⚠️ ${channelName} 폴링 FLOOD_WAIT: ${error.seconds}초 동안 모든 폴링 중지`)
+        metrics.recordPollError(channelName, 'flood_wait')
+      } else {
+        state.intervalMs = Math.min(state.intervalMs * 2, MAX_INTERVAL_MS)
+        console.error(`[Telegram] ${channelName} 폴링 실패 (${state.intervalMs / 1000}초 후 재시도):`, (error as Error).message)
+        metrics.recordPollError(channelName, 'error')
+      }
+    }
+    state.nextPollAt = Math.max(Date.now() + state.intervalMs, this.blockedUntil)
+  }
+}
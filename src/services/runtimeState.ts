@@ -0,0 +1,66 @@
+import type { ChannelMapping } from '../config'
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile'
+
+// Saved Messages 명령으로 바꾼 설정 (설정 파일/환경변수 위에 덧씌움)
+interface RuntimeState {
+  // 전달을 멈춘 매핑의 telegramChannel
+  paused: string[]
+  // /add로 추가한 매핑
+  added: ChannelMapping[]
+  // /remove로 뺀 설정 파일/환경변수 매핑의 telegramChannel
+  removed: string[]
+}
+
+/**
+ * 실행 중 변경한 매핑/일시 중지 상태를 파일에 저장 (재시작 후에도 유지)
+ */
+export class RuntimeStateStore {
+  private filePath: string
+  private state: RuntimeState
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.state = { paused: [], added: [], removed: [], ...readJsonFile<Partial<RuntimeState>>(filePath, {}) }
+  }
+
+  // 설정 파일/환경변수 매핑에 실행 중 변경 사항을 적용한 최종 매핑
+  apply(baseMappings: ChannelMapping[]): ChannelMapping[] {
+    return [...baseMappings.filter((m) => !this.state.removed.includes(m.telegramChannel)), ...this.state.added]
+  }
+
+  getPaused(): string[] {
+    return this.state.paused
+  }
+
+  isPaused(telegramChannel: string): boolean {
+    return this.state.paused.includes(telegramChannel)
+  }
+
+  pause(telegramChannel: string): void {
+    if (this.isPaused(telegramChannel)) return
+    this.state.paused.push(telegramChannel)
+    this.save()
+  }
+
+  resume(telegramChannel: string): void {
+    this.state.paused = this.state.paused.filter((channel) => channel !== telegramChannel)
+    this.save()
+  }
+
+  add(mapping: ChannelMapping): void {
+    this.state.added.push(mapping)
+    this.save()
+  }
+
+  // 채널의 매핑을 모두 제거 (추가한 매핑은 삭제, 설정 파일 매핑은 제외 목록에 기록)
+  remove(telegramChannel: string): void {
+    this.state.added = this.state.added.filter((m) => m.telegramChannel !== telegramChannel)
+    this.state.paused = this.state.paused.filter((channel) => channel !== telegramChannel)
+    if (!this.state.removed.includes(telegramChannel)) this.state.removed.push(telegramChannel)
+    this.save()
+  }
+
+  private save(): void {
+    writeJsonFileAtomic(this.filePath, this.state)
+  }
+}
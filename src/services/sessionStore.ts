@@ -0,0 +1,114 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+interface EncryptedSessionFile {
+  version: 1;
+  // 암호문구 -> 키 유도 방식
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+/**
+ * 텔레그램 세션 문자열을 암호화해 파일에 저장 (계정 전체 권한이므로 평문 보관 금지)
+ * AES-256-GCM, 키는 환경변수의 암호문구에서 scrypt로 유도
+ */
+export class SessionStore {
+  private filePath: string;
+  private passphrase: string;
+  // 마지막으로 읽거나 쓴 세션 (바뀌었을 때만 다시 저장)
+  private lastSession: string | null = null;
+
+  constructor(filePath: string, passphrase: string) {
+    this.filePath = filePath;
+    this.passphrase = passphrase;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  load(): string {
+    let file: EncryptedSessionFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `세션 파일을 읽을 수 없습니다 (${this.filePath}): ${(error as Error).message}`,
+      );
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        CIPHER,
+        deriveKey(this.passphrase, Buffer.from(file.salt, "base64")),
+        Buffer.from(file.iv, "base64"),
+      );
+      decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+      const session = Buffer.concat([
+        decipher.update(Buffer.from(file.data, "base64")),
+        decipher.final(),
+      ]).toString("utf-8");
+      this.lastSession = session;
+      return session;
+    } catch {
+      // 인증 태그 불일치 = 키가 다르거나 파일이 변조됨
+      throw new Error(
+        `세션 파일을 복호화할 수 없습니다 (${this.filePath}). TELEGRAM_SESSION_KEY를 확인하세요.`,
+      );
+    }
+  }
+
+  // 저장할 때마다 새 salt/iv 사용, 소유자만 읽을 수 있게 저장
+  save(session: string): void {
+    if (session === this.lastSession) return;
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      CIPHER,
+      deriveKey(this.passphrase, salt),
+      iv,
+    );
+    const data = Buffer.concat([
+      cipher.update(session, "utf-8"),
+      cipher.final(),
+    ]);
+    const file: EncryptedSessionFile = {
+      version: 1,
+      kdf: "scrypt",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, this.filePath);
+    this.lastSession = session;
+  }
+
+  // 새 암호문구로 다시 암호화 (기존 암호문구로 먼저 복호화)
+  rotate(newPassphrase: string): void {
+    const session = this.load();
+    this.passphrase = newPassphrase;
+    this.lastSession = null;
+    this.save(session);
+  }
+}
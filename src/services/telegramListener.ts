@@ -2,7 +2,12 @@ import { TelegramClient } from "telegram";
 import { StringSession } from "telegram/sessions";
 import { NewMessage, NewMessageEvent } from "telegram/events";
 import { Api } from "telegram/tl";
-import * as readline from "readline";
+import { Dialog } from "telegram/tl/custom/dialog";
+import type { CheckpointStore } from "./checkpointStore";
+import type { SessionStore } from "./sessionStore";
+import { metrics, MessageSource } from "./metrics";
+import { PollScheduler } from "./pollScheduler";
+import type { ForwardOrigin, ReplyContext } from "../utils/messageContext";
 
 export interface TelegramMessage {
   id: number;
@@ -12,37 +17,84 @@ export interface TelegramMessage {
   chatId?: string;
   date: number;
   media?: Api.TypeMessageMedia;
+  // 텍스트 변환 후의 엔티티 (없으면 rawMessage.entities 사용)
+  entities?: Api.TypeMessageEntity[];
+  // 전달(포워드)된 메시지의 원본 출처 (포워더가 보낼 게시물만 조회)
+  forwardedFrom?: ForwardOrigin;
+  // 답장 대상 메시지 (포워더가 보낼 게시물만 조회)
+  replyTo?: ReplyContext;
   rawMessage: Api.Message;
 }
 
-type MessageHandler = (message: TelegramMessage) => Promise<void>;
+// 세션이 없거나 만료된 경우 (서버에서는 입력을 받을 수 없으므로 바로 종료)
+const LOGIN_REQUIRED_MESSAGE =
+  "텔레그램 세션이 없거나 만료되었습니다. 터미널에서 `courier login`으로 로그인한 뒤 TELEGRAM_SESSION(또는 TELEGRAM_SESSION_FILE)을 설정하세요.";
+
+// 전송 큐에 등록한 뒤 나중에 끝나는 전달의 완료 시점 (앨범, 재시도 중인 전송 포함)
+export interface MessageDelivery {
+  delivered: Promise<void>;
+}
+
+// 반환값이 없으면 핸들러가 끝났을 때 전달도 끝난 것으로 봄
+type MessageHandler = (
+  message: TelegramMessage,
+) => Promise<MessageDelivery | void>;
+type DeleteHandler = (chatId: string, messageIds: number[]) => Promise<void>;
+// 명령 텍스트를 받아 답장할 텍스트를 반환
+type CommandHandler = (text: string) => Promise<string>;
 
 export class TelegramListener {
   private client: TelegramClient | null = null;
   private apiId: number;
   private apiHash: string;
-  private phoneNumber?: string;
   private sessionString: string;
   private messageHandler: MessageHandler | null = null;
+  private editHandler: MessageHandler | null = null;
+  private deleteHandler: DeleteHandler | null = null;
+  private commandHandler: CommandHandler | null = null;
+  // 로그인한 계정의 사용자 ID (Saved Messages 명령 확인용)
+  private selfUserId: string | null = null;
   // 메시지 중복 처리 방지용 (chatId + messageId 조합)
   private processedMessages: Set<string> = new Set();
+  // 전달 중인 메시지 (푸시와 폴링이 같은 메시지를 동시에 처리하지 않도록)
+  private inFlightMessages: Set<string> = new Set();
+  // 채널별 아직 전달 중인 게시물 (끝나기 전에는 그 뒤로 체크포인트를 옮기지 않음)
+  private pendingDeliveries: Map<string, Promise<void>> = new Map();
   // 최대 캐시 크기 (메모리 관리)
   private readonly MAX_CACHE_SIZE = 1000;
 
   // 폴링 관련
   private channelsToPoll: string[] = [];
-  private currentPollIndex = 0;
-  private pollingInterval: NodeJS.Timeout | null = null;
-
-  constructor(
-    apiId: number,
-    apiHash: string,
-    phoneNumber?: string,
-    sessionString = "",
-  ) {
+  // 채널별 활동에 따라 폴링 간격 조절 (FLOOD_WAIT 대응 포함)
+  private pollScheduler = new PollScheduler((channelName) =>
+    this.pollChannel(channelName),
+  );
+  // start()가 끝까지 완료되었는지 (로그인 대기, 채널 확인 실패 중에는 false)
+  private ready = false;
+  // 채널별 마지막으로 확인한 메시지 ID (채널명 -> 메시지 ID)
+  private pollHighWaterMarks: Map<string, number> = new Map();
+  // 한 번의 폴링에서 가져올 최대 메시지 수
+  private readonly POLL_BATCH_LIMIT = 100;
+
+  // 매핑의 telegramChannel -> 채널 엔티티 (시작 시 확인, 이후 ID로 라우팅)
+  private channels: Map<string, Api.Channel | Api.Chat> = new Map();
+  // 채널 ID -> 마지막으로 확인한 username/제목 (변경 감지용)
+  private channelNames: Map<string, { username?: string; title?: string }> =
+    new Map();
+
+  // 체크포인트 관련
+  private checkpointStore: CheckpointStore | null = null;
+  // 따라잡기 요청 한 번에 가져올 메시지 수 (빈 결과가 나올 때까지 반복)
+  private readonly CATCH_UP_BATCH_LIMIT = 100;
+
+  // 암호화된 세션 파일 (DC 이동/인증 키 변경을 재시작 후에도 유지)
+  private sessionStore: SessionStore | null = null;
+  private sessionSaveInterval: NodeJS.Timeout | null = null;
+  private readonly SESSION_SAVE_INTERVAL_MS = 60_000;
+
+  constructor(apiId: number, apiHash: string, sessionString = "") {
     this.apiId = apiId;
     this.apiHash = apiHash;
-    this.phoneNumber = phoneNumber;
     this.sessionString = sessionString;
   }
 
@@ -50,27 +102,29 @@ export class TelegramListener {
     this.messageHandler = handler;
   }
 
-  private async getUserInput(prompt: string): Promise<string> {
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
+  // 채널 메시지 수정 (UpdateEditChannelMessage)
+  onEdit(handler: MessageHandler): void {
+    this.editHandler = handler;
+  }
 
-    return new Promise((resolve) => {
-      rl.question(prompt, (answer) => {
-        rl.close();
-        resolve(answer);
-      });
-    });
+  // 채널 메시지 삭제 (UpdateDeleteChannelMessages)
+  onDelete(handler: DeleteHandler): void {
+    this.deleteHandler = handler;
+  }
+
+  // 로그인한 계정이 Saved Messages에 보낸 "/" 명령 (답장도 Saved Messages로)
+  onCommand(handler: CommandHandler): void {
+    this.commandHandler = handler;
   }
 
   async start(): Promise<void> {
     // StringSession은 빈 문자열('') 또는 유효한 세션 문자열만 허용
     const sessionStr = this.sessionString.trim() || "";
-    console.log(
-      `[Telegram] 세션 상태: ${sessionStr ? `${sessionStr.length}자 로드됨` : "새 세션 생성"}`,
-    );
+    if (!sessionStr) throw new Error(LOGIN_REQUIRED_MESSAGE);
+    console.log(`[Telegram] 세션 상태: ${sessionStr.length}자 로드됨`);
 
+    // FLOOD_WAIT는 기본값(60초)까지 기다렸다 재시도 (미디어 다운로드, 시작 시 대화 목록 등이 끊기지 않도록)
+    // 더 긴 FLOOD_WAIT는 에러가 되며, 폴링에서는 스케줄러가 전체 폴링을 멈췄다가 재개
     this.client = new TelegramClient(
       new StringSession(sessionStr),
       this.apiId,
@@ -80,40 +134,29 @@ export class TelegramListener {
 
     console.log("[Telegram] 클라이언트 연결 시도 중...");
 
-    await this.client.start({
-      phoneNumber: async () => {
-        if (this.phoneNumber) return this.phoneNumber;
-        return await this.getUserInput(
-          "[Telegram] 전화번호를 입력하세요 (형식: +821012345678): ",
-        );
-      },
-      password: async () => {
-        console.log("[Telegram] 2FA 비밀번호가 필요합니다.");
-        return await this.getUserInput(
-          "[Telegram] 2FA 비밀번호를 입력하세요: ",
-        );
-      },
-      phoneCode: async () => {
-        console.log("[Telegram] 텔레그램 앱에서 받은 인증 코드가 필요합니다.");
-        return await this.getUserInput("[Telegram] 인증 코드를 입력하세요: ");
-      },
-      onError: (error: Error) => console.error("[Telegram] 에러:", error),
-    });
+    await this.client.connect();
+
+    // 대화형 로그인은 courier login에서만 (서버에서 입력 대기로 멈추지 않도록)
+    if (!(await this.client.checkAuthorization())) {
+      await this.client.disconnect();
+      this.client = null;
+      throw new Error(LOGIN_REQUIRED_MESSAGE);
+    }
 
     console.log("[Telegram] 클라이언트 연결 완료");
 
-    // 세션 문자열 출력 (서버 환경 배포용)
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    const session = this.client.session.save() as unknown as string;
-    if (session && session.length > 0) {
-      console.log("[Telegram] ============================================");
-      console.log(
-        "[Telegram] 세션 문자열 (TELEGRAM_SESSION 환경변수에 설정하세요):",
+    if (this.sessionStore) {
+      this.saveSession();
+      this.sessionSaveInterval = setInterval(
+        () => this.saveSession(),
+        this.SESSION_SAVE_INTERVAL_MS,
       );
-      console.log(session);
-      console.log("[Telegram] ============================================");
     }
 
+    // getMe를 호출해야 텔레그램이 업데이트를 보내기 시작함 (Saved Messages 명령 확인에도 사용)
+    const me = await this.client.getMe();
+    this.selfUserId = String(me.id);
+
     // 모든 대화 목록을 가져와 엔티티 캐시 초기화
     // (Telegram API는 "본 적 없는" 채널의 메시지를 처리할 수 없음)
     console.log("[Telegram] 채널 목록 캐싱 중...");
@@ -132,10 +175,17 @@ export class TelegramListener {
       }
     });
 
+    // 매핑된 채널을 ID로 확정 (확인할 수 없으면 시작 중단)
+    await this.resolveChannels(this.channelsToPoll, dialogs);
+
+    // 다운타임 동안 놓친 메시지 전달 (실시간 처리 시작 전에 순서대로)
+    await this.catchUpFromCheckpoints();
+
     this.registerEventHandlers();
 
     // 폴링 시작
     this.startPolling();
+    this.ready = true;
   }
 
   setChannelsToPoll(channels: string[]) {
@@ -143,44 +193,391 @@ export class TelegramListener {
     console.log(`[Telegram] 폴링 대상 채널 설정됨: ${channels.length}개`);
   }
 
-  private startPolling() {
-    if (this.pollingInterval) clearInterval(this.pollingInterval);
+  setCheckpointStore(store: CheckpointStore) {
+    this.checkpointStore = store;
+  }
 
-    if (this.channelsToPoll.length === 0) {
-      console.log("[Telegram] 폴링 대상 채널이 없습니다.");
-      return;
+  setSessionStore(store: SessionStore) {
+    this.sessionStore = store;
+  }
+
+  // 현재 세션을 파일에 저장 (바뀐 경우에만 씀)
+  private saveSession(): void {
+    if (!this.client || !this.sessionStore) return;
+    try {
+      this.sessionStore.save(this.client.session.save() as unknown as string);
+    } catch (e) {
+      console.error("[Telegram] 세션 파일 저장 실패:", (e as Error).message);
     }
+  }
 
-    console.log(
-      `[Telegram] 폴링 시작 (대상: ${this.channelsToPoll.length}개 채널, 2초 간격 순차 확인)`,
-    );
+  // 설정 변경 시 폴링/라우팅 대상 채널 교체 (연결은 유지)
+  // 새 채널을 확인할 수 없으면 아무것도 바꾸지 않고 에러 (시작 시와 같은 규칙)
+  async updateChannels(channels: string[]): Promise<void> {
+    const added = channels.filter((name) => !this.channels.has(name));
+    if (this.client && added.length > 0) {
+      const dialogs = await this.client.getDialogs({ limit: 500 });
+      await this.resolveChannels(added, dialogs);
+    }
 
-    // 2초마다 채널 하나씩 순차 확인 (API 제한 고려)
-    this.pollingInterval = setInterval(async () => {
-      if (this.channelsToPoll.length === 0 || !this.client) return;
+    for (const channelName of this.channels.keys()) {
+      if (!channels.includes(channelName)) {
+        this.channels.delete(channelName);
+        this.pollHighWaterMarks.delete(channelName);
+      }
+    }
+    this.channelsToPoll = channels;
 
-      const channelName = this.channelsToPoll[this.currentPollIndex];
-      this.currentPollIndex =
-        (this.currentPollIndex + 1) % this.channelsToPoll.length;
+    console.log(`[Telegram] 폴링 대상 채널 변경됨: ${channels.length}개`);
+    this.pollScheduler.setChannels(channels);
+  }
 
+  // 매핑에 넣기 전에 새 채널을 확인 (확인할 수 없으면 에러, 상태는 바꾸지 않음)
+  // 확인하지 못한 채널을 저장하면 다음 시작 때 채널 확인에서 실패하므로 저장 전에 호출
+  async checkChannels(channels: string[]): Promise<void> {
+    const added = channels.filter((name) => !this.channels.has(name));
+    if (!this.client || added.length === 0) return;
+
+    const dialogs = await this.client.getDialogs({ limit: 500 });
+    await this.findChannels(added, dialogs);
+  }
+
+  // 시작 시 확인된 채널 ID (확인 전이거나 찾지 못했으면 undefined)
+  getChannelId(channelName: string): string | undefined {
+    const channel = this.channels.get(channelName);
+    return channel ? String(channel.id) : undefined;
+  }
+
+  /**
+   * 매핑의 telegramChannel(username, 제목, ID)을 참여 중인 대화에서 찾아 채널 ID로 확정
+   * 하나라도 확인할 수 없으면 아무것도 등록하지 않고 에러, 참여하지 않은 채널은 경고
+   */
+  private async resolveChannels(
+    channelNames: string[],
+    dialogs: Dialog[],
+  ): Promise<void> {
+    const resolved = await this.findChannels(channelNames, dialogs);
+
+    for (const [channelName, { channel, joined }] of resolved) {
+      if (!joined) {
+        console.warn(
+          `[Telegram] ⚠️ ${channelName}: 참여하지 않은 채널입니다. 실시간 수신 없이 폴링으로만 전달됩니다.`,
+        );
+      }
+
+      this.channels.set(channelName, channel);
+      this.channelNames.set(String(channel.id), {
+        username: getChannelUsername(channel),
+        title: channel.title,
+      });
+      console.log(
+        `[Telegram] 채널 확인: ${channelName} -> ${describeChannel(channel)}`,
+      );
+    }
+  }
+
+  // 채널을 모두 확인 (여러 채널과 일치하거나 찾을 수 없는 채널을 모아 에러)
+  private async findChannels(
+    channelNames: string[],
+    dialogs: Dialog[],
+  ): Promise<Map<string, ResolvedChannel>> {
+    const resolved: Map<string, ResolvedChannel> = new Map();
+    if (!this.client) return resolved;
+
+    const problems: string[] = [];
+    for (const channelName of new Set(channelNames)) {
       try {
-        // 최근 메시지 1개만 가져옴
-        const messages = await this.client.getMessages(channelName, {
-          limit: 1,
-        });
-        if (messages && messages.length > 0) {
-          const message = messages[0];
-          if (message instanceof Api.Message) {
-            // 중복 체크 및 처리는 handleRawChannelMessage에서 수행
-            // (이미 처리된 메시지는 무시됨)
-            await this.handleRawChannelMessage(message, true);
+        resolved.set(
+          channelName,
+          await resolveChannel(this.client, channelName, dialogs),
+        );
+      } catch (e) {
+        problems.push((e as Error).message);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(
+        `CHANNEL_MAPPINGS의 채널을 확인할 수 없습니다:\n  - ${problems.join("\n  - ")}`,
+      );
+    }
+    return resolved;
+  }
+
+  // 확인된 채널의 username/제목 변경을 로그로 남김 (라우팅은 ID 기준이라 영향 없음)
+  private noteChannelNames(
+    chatId: string | undefined,
+    username: string | undefined,
+    title: string | undefined,
+  ): void {
+    const known = chatId ? this.channelNames.get(chatId) : undefined;
+    if (!known) return;
+
+    if (username && username !== known.username) {
+      console.log(
+        `[Telegram] 채널 username 변경 감지 (id=${chatId}): @${known.username ?? "없음"} -> @${username}`,
+      );
+      known.username = username;
+    }
+    if (title && title !== known.title) {
+      console.log(
+        `[Telegram] 채널 제목 변경 감지 (id=${chatId}): ${known.title ?? "없음"} -> ${title}`,
+      );
+      known.title = title;
+    }
+  }
+
+  private async catchUpFromCheckpoints(): Promise<void> {
+    if (!this.client || !this.checkpointStore) return;
+
+    for (const channelName of this.channelsToPoll) {
+      try {
+        const entity = this.channels.get(channelName);
+        if (!(entity instanceof Api.Channel)) {
+          console.warn(
+            `[Telegram] ${channelName}은(는) 채널이 아니므로 체크포인트를 사용하지 않습니다.`,
+          );
+          continue;
+        }
+
+        const channelId = String(entity.id);
+
+        const lastId = this.checkpointStore.get(channelId);
+        if (lastId === undefined) {
+          // 최초 실행: 과거 메시지는 전달하지 않고 최신 메시지 ID만 기록
+          const [latest] = await this.client.getMessages(entity, { limit: 1 });
+          if (latest) this.checkpointStore.advance(channelId, latest.id);
+          console.log(
+            `[Telegram] ${channelName} 체크포인트 초기화: ${latest?.id ?? "메시지 없음"}`,
+          );
+          continue;
+        }
+
+        // 체크포인트 이후 메시지를 오래된 순서로, 남은 메시지가 없을 때까지 가져옴
+        let lastSeenId = lastId;
+        let total = 0;
+        while (true) {
+          const missed = await this.client.getMessages(entity, {
+            minId: lastSeenId,
+            reverse: true,
+            limit: this.CATCH_UP_BATCH_LIMIT,
+          });
+          if (missed.length === 0) break;
+
+          for (const message of missed) {
+            if (message instanceof Api.Message) {
+              await this.handleRawChannelMessage(message, true);
+            }
+            this.advanceCheckpoint(message);
+            lastSeenId = Math.max(lastSeenId, message.id);
           }
+          total += missed.length;
+          // 폴링은 따라잡기가 끝난 지점부터 이어서 확인
+          this.pollHighWaterMarks.set(channelName, lastSeenId);
         }
+        console.log(
+          `[Telegram] ${channelName} 따라잡기: ${lastId} 이후 ${total}개 메시지`,
+        );
       } catch (e) {
-        // 폴링 에러는 너무 시끄럽지 않게 에러 메시지만
-        // console.error(`[Telegram] Polling error for ${channelName}:`, e);
+        console.error(`[Telegram] ${channelName} 따라잡기 실패:`, e);
+      }
+    }
+  }
+
+  // 체크포인트를 관리하는 채널인 경우에만 채널 ID 반환
+  private getTrackedChannelId(peerId: Api.TypePeer): string | null {
+    if (!this.checkpointStore || !(peerId instanceof Api.PeerChannel)) {
+      return null;
+    }
+    const channelId = String(peerId.channelId);
+    for (const channel of this.channels.values()) {
+      if (channel instanceof Api.Channel && String(channel.id) === channelId) {
+        return channelId;
+      }
+    }
+    return null;
+  }
+
+  // 이미 전달된 메시지인지 체크포인트로 확인
+  private isBeforeCheckpoint(message: Api.Message): boolean {
+    const channelId = this.getTrackedChannelId(message.peerId);
+    if (!channelId) return false;
+    return this.checkpointStore?.isDelivered(channelId, message.id) ?? false;
+  }
+
+  // 폴링/따라잡기가 순서대로 확인한 메시지까지 체크포인트 이동
+  // (앞선 게시물이 아직 전달 중이면 전달이 끝난 뒤에 이동)
+  private advanceCheckpoint(message: Api.TypeMessage): void {
+    if (!message.peerId) return;
+    const channelId = this.getTrackedChannelId(message.peerId);
+    if (!channelId) return;
+
+    const pending = this.pendingDeliveries.get(channelId);
+    if (pending) {
+      pending.then(() => this.checkpointStore?.advance(channelId, message.id));
+    } else {
+      this.checkpointStore?.advance(channelId, message.id);
+    }
+  }
+
+  // 게시물 전달이 끝날 때까지 해당 채널의 체크포인트 이동을 미룸
+  private holdCheckpoint(message: Api.Message, delivered: Promise<void>): void {
+    const channelId = this.getTrackedChannelId(message.peerId);
+    if (!channelId) return;
+
+    const previous = this.pendingDeliveries.get(channelId);
+    const pending: Promise<void> = Promise.all([previous, delivered]).then(
+      () => {
+        if (this.pendingDeliveries.get(channelId) === pending) {
+          this.pendingDeliveries.delete(channelId);
+        }
+      },
+    );
+    this.pendingDeliveries.set(channelId, pending);
+  }
+
+  // 푸시로 전달한 메시지는 따로 기록 (앞에 아직 받지 못한 메시지가 있을 수 있음)
+  private recordPushDelivered(message: Api.Message): void {
+    const channelId = this.getTrackedChannelId(message.peerId);
+    if (channelId) this.checkpointStore?.markDelivered(channelId, message.id);
+  }
+
+  // 중복 체크용 키 (chatId:messageId)
+  private getMessageKey(message: Api.TypeMessage): string {
+    return `${getDedupChatId(message.peerId)}:${message.id}`;
+  }
+
+  // 전달(또는 명령 처리)이 끝난 메시지 기록
+  private markProcessed(messageKey: string): void {
+    this.processedMessages.add(messageKey);
+
+    // 캐시 크기 관리 (오래된 항목 제거)
+    if (this.processedMessages.size > this.MAX_CACHE_SIZE) {
+      const iterator = this.processedMessages.values();
+      // 첫 번째 절반 삭제
+      for (let i = 0; i < this.MAX_CACHE_SIZE / 2; i++) {
+        const oldKey = iterator.next().value;
+        if (oldKey) this.processedMessages.delete(oldKey);
+      }
+    }
+  }
+
+  // 전달 중으로 표시하고 핸들러 실행, 전송 큐에 등록되면 처리 완료로 표시
+  // (등록 전에 실패하면 표시하지 않으므로 폴링이 다시 시도)
+  // 체크포인트는 전달(재시도, DLQ 보관 포함)이 끝난 뒤에 기록
+  private async trackDelivery(
+    message: Api.Message,
+    messageKey: string,
+    isPush: boolean,
+    deliver: () => Promise<MessageDelivery | void>,
+  ): Promise<void> {
+    this.inFlightMessages.add(messageKey);
+    let delivery: MessageDelivery | void;
+    try {
+      delivery = await deliver();
+    } finally {
+      this.inFlightMessages.delete(messageKey);
+    }
+    this.markProcessed(messageKey);
+
+    if (!delivery) {
+      if (isPush) this.recordPushDelivered(message);
+      return;
+    }
+    this.holdCheckpoint(message, delivery.delivered);
+    if (isPush) {
+      delivery.delivered.then(() => this.recordPushDelivered(message));
+    }
+  }
+
+  private isProcessed(messageKey: string): boolean {
+    return (
+      this.processedMessages.has(messageKey) ||
+      this.inFlightMessages.has(messageKey)
+    );
+  }
+
+  private startPolling() {
+    if (this.channelsToPoll.length === 0) {
+      console.log("[Telegram] 폴링 대상 채널이 없습니다.");
+    } else {
+      console.log(
+        `[Telegram] 폴링 시작 (대상: ${this.channelsToPoll.length}개 채널, 채널별 활동에 따라 간격 조절, 누락 구간 보충)`,
+      );
+    }
+
+    this.pollScheduler.setChannels(this.channelsToPoll);
+    this.pollScheduler.start();
+  }
+
+  // 푸시로 메시지를 받은 채널은 폴링 간격을 늘림
+  private notePushActivity(chatId: string | undefined): void {
+    for (const [channelName, channel] of this.channels) {
+      if (String(channel.id) === chatId) {
+        this.pollScheduler.notePush(channelName);
       }
-    }, 2000);
+    }
+  }
+
+  // 매핑된 채널의 메시지만 매핑 이름으로 집계 (DM/그룹 이름이 지표에 남지 않도록)
+  private recordReceived(
+    chatId: string | undefined,
+    source: MessageSource,
+  ): void {
+    for (const [channelName, channel] of this.channels) {
+      if (String(channel.id) === chatId) {
+        metrics.recordReceived(channelName, source);
+        return;
+      }
+    }
+  }
+
+  // 마지막으로 확인한 메시지 이후 전부를 오래된 순서로 전달
+  // 반환값: 푸시로 받지 못해 폴링으로 새로 전달한 메시지 수 (에러는 스케줄러가 처리)
+  private async pollChannel(channelName: string): Promise<number> {
+    if (!this.client) return 0;
+
+    // 시작 시 확인된 채널은 엔티티로 조회 (이름이 바뀌어도 유지)
+    const peer = this.channels.get(channelName) ?? channelName;
+    let lastSeenId = this.pollHighWaterMarks.get(channelName);
+    if (lastSeenId === undefined) {
+      // 체크포인트가 있으면 그 지점부터, 없으면 현재 최신 메시지부터 시작
+      const channelId = this.getChannelId(channelName);
+      lastSeenId = channelId ? this.checkpointStore?.get(channelId) : undefined;
+
+      if (lastSeenId === undefined) {
+        const [latest] = await this.client.getMessages(peer, {
+          limit: 1,
+        });
+        lastSeenId = latest?.id ?? 0;
+      }
+      this.pollHighWaterMarks.set(channelName, lastSeenId);
+    }
+
+    const messages = await this.client.getMessages(peer, {
+      minId: lastSeenId,
+      reverse: true,
+      limit: this.POLL_BATCH_LIMIT,
+    });
+
+    let found = 0;
+    for (const message of messages) {
+      // 푸시로 큐에 등록 중인 메시지는 결과를 알 수 없으므로 다음 폴링에서 다시 확인
+      if (this.inFlightMessages.has(this.getMessageKey(message))) break;
+
+      if (message instanceof Api.Message) {
+        // 중복 체크 및 처리는 handleRawChannelMessage에서 수행
+        // (푸시로 이미 처리된 메시지는 무시됨, 실패하면 예외로 여기서 중단)
+        if (await this.handleRawChannelMessage(message, true)) found++;
+      }
+      // 처리에 성공한 메시지까지만 기준점 이동 (실패 시 다음 폴링에서 재시도)
+      this.advanceCheckpoint(message);
+      this.pollHighWaterMarks.set(
+        channelName,
+        Math.max(this.pollHighWaterMarks.get(channelName) ?? 0, message.id),
+      );
+    }
+    return found;
   }
 
   private registerEventHandlers(): void {
@@ -202,6 +599,11 @@ export class TelegramListener {
           const message = update.message;
           if (message instanceof Api.Message) {
             await this.handleRawChannelMessage(message);
+          } else if (message instanceof Api.MessageService) {
+            // 고정 알림, 입장 알림 등은 전달하지 않음
+            console.log(
+              `[Filter] 서비스 메시지 제외: ${message.action.className} (id=${message.id})`,
+            );
           }
         }
         // 일반 새 메시지 업데이트 (그룹/DM)
@@ -212,6 +614,20 @@ export class TelegramListener {
             await this.handleRawChannelMessage(message);
           }
         }
+        // 채널 메시지 수정
+        else if (update instanceof Api.UpdateEditChannelMessage) {
+          const message = update.message;
+          if (message instanceof Api.Message) {
+            await this.handleEditedChannelMessage(message);
+          }
+        }
+        // 채널 메시지 삭제
+        else if (update instanceof Api.UpdateDeleteChannelMessages) {
+          console.log(
+            `[Telegram] 🗑️ 메시지 삭제 수신: channel=${update.channelId}, ids=${update.messages.join(",")}`,
+          );
+          await this.deleteHandler?.(String(update.channelId), update.messages);
+        }
       } catch (err) {
         console.error("[Telegram] Raw 핸들러 에러:", err);
       }
@@ -223,38 +639,44 @@ export class TelegramListener {
   private async handleRawChannelMessage(
     message: Api.Message,
     isPolling = false,
-  ): Promise<void> {
-    if (!this.client || !this.messageHandler) return;
+  ): Promise<boolean> {
+    if (!this.client || !this.messageHandler) return false;
 
     const peerId = message.peerId;
-    if (!peerId) return;
-
-    // 중복 체크용 키
-    const chatIdForDedup =
-      "channelId" in peerId
-        ? String(peerId.channelId)
-        : "chatId" in peerId
-          ? String(peerId.chatId)
-          : "userId" in peerId
-            ? String(peerId.userId)
-            : "unknown";
+    if (!peerId) return false;
+
+    const chatIdForDedup = getDedupChatId(peerId);
     const messageKey = `${chatIdForDedup}:${message.id}`;
 
     // 이미 처리된 메시지 건너뛰기
-    if (this.processedMessages.has(messageKey)) {
-      return; // Raw 핸들러는 중복 로그 생략
+    if (this.isProcessed(messageKey)) {
+      return false; // Raw 핸들러는 중복 로그 생략
     }
-    this.processedMessages.add(messageKey);
 
-    // 캐시 크기 관리
-    if (this.processedMessages.size > this.MAX_CACHE_SIZE) {
-      const iterator = this.processedMessages.values();
-      for (let i = 0; i < this.MAX_CACHE_SIZE / 2; i++) {
-        const oldKey = iterator.next().value;
-        if (oldKey) this.processedMessages.delete(oldKey);
-      }
+    if (this.isControlCommand(message)) {
+      this.markProcessed(messageKey);
+      await this.handleCommand(message);
+      return false;
     }
 
+    // 재시작 전이나 푸시로 이미 전달된 메시지 건너뛰기
+    if (this.isBeforeCheckpoint(message)) return false;
+
+    await this.trackDelivery(message, messageKey, !isPolling, () =>
+      this.deliverRawMessage(message, chatIdForDedup, isPolling),
+    );
+    if (!isPolling) this.notePushActivity(chatIdForDedup);
+    return true;
+  }
+
+  private async deliverRawMessage(
+    message: Api.Message,
+    chatId: string,
+    isPolling: boolean,
+  ): Promise<MessageDelivery | void> {
+    if (!this.messageHandler) return;
+    const messageKey = `${chatId}:${message.id}`;
+
     if (!isPolling) {
       console.log(
         `[Telegram] 📡 Raw 메시지: key=${messageKey}, text="${(message.message || "").substring(0, 30)}..."`,
@@ -266,29 +688,45 @@ export class TelegramListener {
     }
 
     // 채널 정보 추출
-    let chatUsername: string | undefined;
-    let chatTitle: string | undefined;
-    let chatId: string | undefined = chatIdForDedup;
+    const { chatUsername, chatTitle } = await this.resolveChatInfo(
+      message.peerId,
+    );
+    this.noteChannelNames(chatId, chatUsername, chatTitle);
 
-    try {
-      const entity = await this.client.getEntity(peerId);
-      if (entity) {
-        chatUsername =
-          "username" in entity
-            ? (entity.username as string | undefined)
-            : undefined;
-        chatTitle =
-          "title" in entity ? (entity.title as string | undefined) : undefined;
-      }
-    } catch (e) {
-      console.log("[Telegram] Raw getEntity() 실패, ID만 사용:", e);
+    console.log(
+      `[Telegram] 📡 Raw 채널 정보: username=${chatUsername}, title=${chatTitle}, id=${chatId}`,
+    );
+
+    this.recordReceived(chatId, isPolling ? "polling" : "push");
+    return this.messageHandler({
+      id: message.id,
+      text: message.message || "",
+      chatUsername,
+      chatTitle,
+      chatId,
+      date: message.date ?? Math.floor(Date.now() / 1000),
+      media: message.media,
+      rawMessage: message,
+    });
+  }
+
+  private async handleEditedChannelMessage(
+    message: Api.Message,
+  ): Promise<void> {
+    if (!this.editHandler || !(message.peerId instanceof Api.PeerChannel)) {
+      return;
     }
 
+    const chatId = String(message.peerId.channelId);
     console.log(
-      `[Telegram] 📡 Raw 채널 정보: username=${chatUsername}, title=${chatTitle}, id=${chatId}`,
+      `[Telegram] ✏️ 메시지 수정 수신: key=${chatId}:${message.id}, text="${(message.message || "").substring(0, 30)}..."`,
+    );
+
+    const { chatUsername, chatTitle } = await this.resolveChatInfo(
+      message.peerId,
     );
 
-    await this.messageHandler({
+    await this.editHandler({
       id: message.id,
       text: message.message || "",
       chatUsername,
@@ -300,6 +738,91 @@ export class TelegramListener {
     });
   }
 
+  // 로그인한 계정이 자기 자신(Saved Messages)에게 보낸 "/"로 시작하는 메시지
+  private isControlCommand(message: Api.Message): boolean {
+    return (
+      this.commandHandler !== null &&
+      message.peerId instanceof Api.PeerUser &&
+      String(message.peerId.userId) === this.selfUserId &&
+      (message.message || "").startsWith("/")
+    );
+  }
+
+  private async handleCommand(message: Api.Message): Promise<void> {
+    if (!this.client || !this.commandHandler) return;
+
+    // 인자에 웹훅 URL이 있을 수 있으므로 명령 이름만 로그
+    console.log(`[Telegram] 🛠️ 명령 수신: ${message.message.split(/\s+/)[0]}`);
+
+    let reply: string;
+    try {
+      reply = await this.commandHandler(message.message);
+    } catch (e) {
+      reply = `⚠️ 명령 처리 실패: ${(e as Error).message}`;
+    }
+    await this.client.sendMessage("me", {
+      message: reply,
+      replyTo: message.id,
+      parseMode: false,
+    });
+  }
+
+  // 채널의 최신 게시물 (체크포인트/중복 처리와 무관하게 조회만 함)
+  async fetchLatestMessage(
+    channelName: string,
+  ): Promise<TelegramMessage | null> {
+    if (!this.client) return null;
+
+    const peer = this.channels.get(channelName) ?? channelName;
+    const [message] = await this.client.getMessages(peer, { limit: 1 });
+    if (!(message instanceof Api.Message)) return null;
+
+    const { chatUsername, chatTitle } = await this.resolveChatInfo(
+      message.peerId,
+    );
+    const peerId = message.peerId;
+    return {
+      id: message.id,
+      text: message.message || "",
+      chatUsername,
+      chatTitle,
+      chatId:
+        peerId instanceof Api.PeerChannel
+          ? String(peerId.channelId)
+          : peerId instanceof Api.PeerChat
+            ? String(peerId.chatId)
+            : this.getChannelId(channelName),
+      date: message.date ?? Math.floor(Date.now() / 1000),
+      media: message.media,
+      rawMessage: message,
+    };
+  }
+
+  private async resolveChatInfo(
+    peerId: Api.TypePeer,
+  ): Promise<{ chatUsername?: string; chatTitle?: string }> {
+    if (!this.client) return {};
+
+    try {
+      const entity = await this.client.getEntity(peerId);
+      if (entity) {
+        return {
+          chatUsername:
+            "username" in entity
+              ? (entity.username as string | undefined)
+              : undefined,
+          chatTitle:
+            "title" in entity
+              ? (entity.title as string | undefined)
+              : undefined,
+        };
+      }
+    } catch (e) {
+      console.log("[Telegram] Raw getEntity() 실패, ID만 사용:", e);
+    }
+    return {};
+  }
+
   private async handleNewMessage(event: NewMessageEvent): Promise<void> {
     if (!this.client || !this.messageHandler) return;
 
@@ -312,123 +835,144 @@ export class TelegramListener {
       );
 
       // 메시지 고유 키 생성 (chatId + messageId)
-      const peerId = message.peerId;
-      const chatIdForDedup =
-        "channelId" in peerId
-          ? String(peerId.channelId)
-          : "chatId" in peerId
-            ? String(peerId.chatId)
-            : "userId" in peerId
-              ? String(peerId.userId)
-              : "unknown";
-      const messageKey = `${chatIdForDedup}:${message.id}`;
+      const messageKey = this.getMessageKey(message);
 
       // 이미 처리된 메시지인지 확인
-      if (this.processedMessages.has(messageKey)) {
+      if (this.isProcessed(messageKey)) {
         console.log(`[Telegram] 중복 메시지 무시: ${messageKey}`);
         return;
       }
 
-      // 메시지 처리 완료 표시
-      this.processedMessages.add(messageKey);
+      if (this.isControlCommand(message)) {
+        this.markProcessed(messageKey);
+        await this.handleCommand(message);
+        return;
+      }
 
-      // 캐시 크기 관리 (오래된 항목 제거)
-      if (this.processedMessages.size > this.MAX_CACHE_SIZE) {
-        const iterator = this.processedMessages.values();
-        // 첫 번째 절반 삭제
-        for (let i = 0; i < this.MAX_CACHE_SIZE / 2; i++) {
-          const oldKey = iterator.next().value;
-          if (oldKey) this.processedMessages.delete(oldKey);
-        }
+      // 재시작 전이나 다른 경로로 이미 전달된 메시지 건너뛰기
+      if (this.isBeforeCheckpoint(message)) {
+        console.log(`[Telegram] 이미 전달된 메시지 무시: ${messageKey}`);
+        return;
       }
 
-      // peerId 원본 로그 (디버깅용)
-      console.log(
-        `[Telegram] 이벤트 수신: key=${messageKey}, text=${(message.message || "").substring(0, 30)}...`,
+      await this.trackDelivery(message, messageKey, true, () =>
+        this.deliverNewMessage(event, messageKey),
       );
+    } catch (error) {
+      console.error("[Telegram] 메시지 처리 중 에러:", error);
+    }
+  }
 
-      let chatUsername: string | undefined;
-      let chatTitle: string | undefined;
-      let chatId: string | undefined;
+  private async deliverNewMessage(
+    event: NewMessageEvent,
+    messageKey: string,
+  ): Promise<MessageDelivery | void> {
+    if (!this.client || !this.messageHandler) return;
+    const message = event.message;
 
-      // 방법 1: event.getChat()
-      try {
-        const chat = await event.getChat();
-        if (chat) {
-          chatUsername =
-            "username" in chat
-              ? (chat.username as string | undefined)
-              : undefined;
-          chatTitle =
-            "title" in chat ? (chat.title as string | undefined) : undefined;
-          chatId = "id" in chat ? String(chat.id) : undefined;
-        }
-      } catch (e) {
-        console.log("[Telegram] event.getChat() 실패:", e);
+    // peerId 원본 로그 (디버깅용)
+    console.log(
+      `[Telegram] 이벤트 수신: key=${messageKey}, text=${(message.message || "").substring(0, 30)}...`,
+    );
+
+    let chatUsername: string | undefined;
+    let chatTitle: string | undefined;
+    let chatId: string | undefined;
+
+    // 방법 1: event.getChat()
+    try {
+      const chat = await event.getChat();
+      if (chat) {
+        chatUsername =
+          "username" in chat
+            ? (chat.username as string | undefined)
+            : undefined;
+        chatTitle =
+          "title" in chat ? (chat.title as string | undefined) : undefined;
+        chatId = "id" in chat ? String(chat.id) : undefined;
       }
+    } catch (e) {
+      console.log("[Telegram] event.getChat() 실패:", e);
+    }
 
-      // 방법 2: message.peerId
-      if (!chatUsername && !chatTitle && !chatId && message.peerId) {
-        try {
-          const peerId = message.peerId;
-          chatId = String(
-            "channelId" in peerId
-              ? peerId.channelId
-              : "userId" in peerId
-                ? peerId.userId
-                : peerId,
-          );
+    // 방법 2: message.peerId
+    if (!chatUsername && !chatTitle && !chatId && message.peerId) {
+      try {
+        const peerId = message.peerId;
+        chatId = String(
+          "channelId" in peerId
+            ? peerId.channelId
+            : "userId" in peerId
+              ? peerId.userId
+              : peerId,
+        );
 
-          try {
-            const entity = await this.client.getEntity(peerId);
-            if (entity) {
-              chatUsername =
-                "username" in entity
-                  ? (entity.username as string | undefined)
-                  : undefined;
-              chatTitle =
-                "title" in entity
-                  ? (entity.title as string | undefined)
-                  : undefined;
-            }
-          } catch (e) {
-            console.log("[Telegram] getEntity() 실패:", e);
+        try {
+          const entity = await this.client.getEntity(peerId);
+          if (entity) {
+            chatUsername =
+              "username" in entity
+                ? (entity.username as string | undefined)
+                : undefined;
+            chatTitle =
+              "title" in entity
+                ? (entity.title as string | undefined)
+                : undefined;
           }
         } catch (e) {
-          console.log("[Telegram] peerId 처리 실패:", e);
+          console.log("[Telegram] getEntity() 실패:", e);
         }
+      } catch (e) {
+        console.log("[Telegram] peerId 처리 실패:", e);
       }
+    }
 
-      console.log(
-        `[Telegram] 채널 정보: username=${chatUsername}, title=${chatTitle}, id=${chatId}`,
-      );
-
-      if (!chatUsername && !chatTitle && !chatId) {
-        console.log("[Telegram] 채널 정보를 가져올 수 없어 건너뜁니다.");
-        return;
-      }
+    console.log(
+      `[Telegram] 채널 정보: username=${chatUsername}, title=${chatTitle}, id=${chatId}`,
+    );
 
-      await this.messageHandler({
-        id: message.id,
-        text: message.message || "",
-        chatUsername,
-        chatTitle,
-        chatId,
-        date: message.date ?? Math.floor(Date.now() / 1000),
-        media: message.media,
-        rawMessage: message,
-      });
-    } catch (error) {
-      console.error("[Telegram] 메시지 처리 중 에러:", error);
+    if (!chatUsername && !chatTitle && !chatId) {
+      console.log("[Telegram] 채널 정보를 가져올 수 없어 건너뜁니다.");
+      return;
     }
+    this.noteChannelNames(chatId, chatUsername, chatTitle);
+
+    this.recordReceived(chatId, "push");
+    const delivery = await this.messageHandler({
+      id: message.id,
+      text: message.message || "",
+      chatUsername,
+      chatTitle,
+      chatId,
+      date: message.date ?? Math.floor(Date.now() / 1000),
+      media: message.media,
+      rawMessage: message,
+    });
+
+    this.notePushActivity(chatId);
+    return delivery;
   }
 
   getClient(): TelegramClient | null {
     return this.client;
   }
 
+  // 텔레그램 서버와 연결되어 있는지
+  isConnected(): boolean {
+    return Boolean(this.client?.connected);
+  }
+
+  // 연결, 채널 확인, 따라잡기가 끝나 메시지를 처리하고 있는지
+  isReady(): boolean {
+    return this.ready && this.isConnected();
+  }
+
   async stop(): Promise<void> {
+    this.ready = false;
+    this.pollScheduler.stop();
+    if (this.sessionSaveInterval) clearInterval(this.sessionSaveInterval);
     if (this.client) {
+      this.saveSession();
       console.log("[Telegram] 클라이언트 연결 종료 중...");
       await this.client.disconnect();
       this.client = null;
@@ -436,3 +980,122 @@ export class TelegramListener {
     }
   }
 }
+
+// 중복 체크용 채팅 ID (채널/그룹/사용자)
+function getDedupChatId(peerId: Api.TypePeer | undefined): string {
+  if (!peerId) return "unknown";
+  return "channelId" in peerId
+    ? String(peerId.channelId)
+    : "chatId" in peerId
+      ? String(peerId.chatId)
+      : "userId" in peerId
+        ? String(peerId.userId)
+        : "unknown";
+}
+
+// "@name", "t.me/name" 형태는 username만 남김
+function normalizeChannelName(channelName: string): string {
+  return channelName
+    .trim()
+    .replace(/^(https?:\/\/)?t\.me\//i, "")
+    .replace(/^@/, "");
+}
+
+// "-100123..." / "123..." 형태의 채널 ID를 텔레그램 내부 ID로 변환
+export function parseChannelId(channelName: string): string | undefined {
+  const trimmed = channelName.trim();
+  if (!/^-?\d+$/.test(trimmed)) return undefined;
+  return trimmed.startsWith("-100")
+    ? trimmed.slice(4)
+    : trimmed.replace(/^-/, "");
+}
+
+export function getChannelUsername(
+  channel: Api.Channel | Api.Chat,
+): string | undefined {
+  if (!(channel instanceof Api.Channel)) return undefined;
+  return channel.username ?? channel.usernames?.find((u) => u.active)?.username;
+}
+
+// ID > username > 제목 순으로 일치하는 채널을 찾음 (제목은 여러 개일 수 있음)
+export function findChannelMatches(
+  channelName: string,
+  channels: (Api.Channel | Api.Chat)[],
+): (Api.Channel | Api.Chat)[] {
+  const id = parseChannelId(channelName);
+  if (id) {
+    const byId = channels.filter((channel) => String(channel.id) === id);
+    if (byId.length > 0) return byId;
+  }
+
+  const username = normalizeChannelName(channelName).toLowerCase();
+  const byUsername = channels.filter(
+    (channel) =>
+      channel instanceof Api.Channel &&
+      (channel.username?.toLowerCase() === username ||
+        channel.usernames?.some((u) => u.username.toLowerCase() === username)),
+  );
+  if (byUsername.length > 0) return byUsername;
+
+  const title = channelName.trim().toLowerCase();
+  return channels.filter((channel) => channel.title.toLowerCase() === title);
+}
+
+export function describeChannel(channel: Api.Channel | Api.Chat): string {
+  const username = getChannelUsername(channel);
+  return `${channel.title} (${username ? `@${username}, ` : ""}id=${channel.id})`;
+}
+
+export interface ResolvedChannel {
+  channel: Api.Channel | Api.Chat;
+  // 참여 중인 채널인지 (아니면 실시간 수신 없이 폴링으로만 받음)
+  joined: boolean;
+}
+
+/**
+ * 매핑/명령에 지정한 채널을 엔티티로 확인 (리스너와 CLI 명령이 같은 규칙 사용)
+ * 참여 중인 대화에서 찾고, 없으면 공개 채널 username으로 조회
+ * 여러 채널과 일치하거나 찾을 수 없으면 에러
+ */
+export async function resolveChannel(
+  client: TelegramClient,
+  channelName: string,
+  dialogs: Dialog[],
+): Promise<ResolvedChannel> {
+  const joined = dialogs
+    .map((dialog) => dialog.entity)
+    .filter(
+      (entity): entity is Api.Channel | Api.Chat =>
+        entity instanceof Api.Channel || entity instanceof Api.Chat,
+    );
+
+  const matches = findChannelMatches(channelName, joined);
+  if (matches.length > 1) {
+    throw new Error(
+      `${channelName}: 여러 채널과 일치합니다 (${matches.map(describeChannel).join(", ")}). 채널 ID로 지정하세요.`,
+    );
+  }
+
+  let channel: Api.Channel | Api.Chat | undefined = matches[0];
+  if (!channel) {
+    // 참여하지 않은 공개 채널은 username으로 조회 가능
+    try {
+      const entity = await client.getEntity(normalizeChannelName(channelName));
+      if (entity instanceof Api.Channel) channel = entity;
+    } catch {
+      // 아래에서 확인 실패로 처리
+    }
+  }
+  if (!channel) {
+    throw new Error(
+      `${channelName}: 채널을 찾을 수 없습니다. 참여 중인 채널의 username, 제목 또는 ID로 지정하세요.`,
+    );
+  }
+
+  return {
+    channel,
+    joined:
+      joined.includes(channel) &&
+      !(channel instanceof Api.Channel && channel.left),
+  };
+}
@@ -0,0 +1,181 @@
+import { Api } from 'telegram/tl'
+import type { TextTransform } from '../config'
+import type { TelegramMessage } from './telegramListener'
+import { compilePattern } from '../utils/pattern'
+import { buildTemplateVars, renderTemplate } from '../utils/template'
+
+interface EditableText {
+  text: string
+  entities: Api.TypeMessageEntity[]
+}
+
+export interface TransformResult {
+  messages: TelegramMessage[]
+  // 본문 앞에 붙일 Discord 멘션 (<@&역할ID>, <@사용자ID>, @everyone)
+  mentions: string[]
+}
+
+// 인스턴스 타입(instanceof)을 유지한 채 위치만 바꾼 엔티티 복사본
+function moveEntity(entity: Api.TypeMessageEntity, offset: number, length: number): Api.TypeMessageEntity {
+  return Object.assign(Object.create(Object.getPrototypeOf(entity)), entity, { offset, length })
+}
+
+/**
+ * start~end 구간을 replacement로 바꾸고 엔티티 위치를 보정
+ * - 구간을 감싸는 엔티티는 길이만 조정 (굵게 표시된 단어를 바꿔도 굵게 유지)
+ * - 구간 안에 완전히 포함된 엔티티는 제거
+ */
+function replaceRange(target: EditableText, start: number, end: number, replacement: string): EditableText {
+  const delta = replacement.length - (end - start)
+  const entities: Api.TypeMessageEntity[] = []
+
+  for (const entity of target.entities) {
+    const entityStart = entity.offset
+    const entityEnd = entity.offset + entity.length
+    let newStart = entityStart
+    let newEnd = entityEnd
+
+    if (entityEnd <= start) {
+      // 앞쪽: 변화 없음
+    } else if (entityStart >= end) {
+      newStart += delta
+      newEnd += delta
+    } else if (entityStart <= start && entityEnd >= end) {
+      newEnd += delta
+    } else if (entityStart >= start && entityEnd <= end) {
+      continue
+    } else if (entityStart < start) {
+      newEnd = start
+    } else {
+      newStart = start + replacement.length
+      newEnd += delta
+    }
+
+    if (newEnd > newStart) entities.push(moveEntity(entity, newStart, newEnd - newStart))
+  }
+
+  return {
+    text: target.text.slice(0, start) + replacement + target.text.slice(end),
+    entities,
+  }
+}
+
+// String.replace와 같은 $1, $<name>, $& 치환 규칙
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match[0]
+    if (name !== undefined) return match.groups?.[name] ?? ''
+    return match[Number(ref)] ?? token
+  })
+}
+
+function replacePattern(target: EditableText, pattern: RegExp, replace: (match: RegExpMatchArray) => string): EditableText {
+  // 뒤에서부터 바꿔야 앞쪽 일치 위치가 어긋나지 않음
+  const matches = Array.from(target.text.matchAll(pattern)).reverse()
+  let result = target
+  for (const match of matches) {
+    const start = match.index ?? 0
+    result = replaceRange(result, start, start + match[0].length, replace(match))
+  }
+  return result
+}
+
+function stripUrls(target: EditableText): EditableText {
+  // 숨은 링크(TextUrl)는 링크만 없애고 글자는 남김
+  let result: EditableText = {
+    text: target.text,
+    entities: target.entities.filter((entity) => !(entity instanceof Api.MessageEntityTextUrl)),
+  }
+
+  const urls = result.entities
+    .filter((entity) => entity instanceof Api.MessageEntityUrl)
+    .sort((a, b) => b.offset - a.offset)
+  for (const url of urls) {
+    result = replaceRange(result, url.offset, url.offset + url.length, '')
+  }
+  return result
+}
+
+// 텔레그램이 멘션으로 인식한 @username만 바꿈 (이메일 주소 등 다른 @는 그대로)
+function replaceMentions(target: EditableText, names: Record<string, string> | undefined): EditableText {
+  const mentions = target.entities
+    .filter((entity) => entity instanceof Api.MessageEntityMention)
+    .sort((a, b) => b.offset - a.offset)
+
+  // 바꾼 이름은 더 이상 멘션이 아니므로 엔티티도 제거
+  let result: EditableText = {
+    text: target.text,
+    entities: target.entities.filter((entity) => !(entity instanceof Api.MessageEntityMention)),
+  }
+  for (const mention of mentions) {
+    const username = result.text.slice(mention.offset + 1, mention.offset + mention.length)
+    result = replaceRange(result, mention.offset, mention.offset + mention.length, names?.[username] ?? username)
+  }
+  return result
+}
+
+function applyToMessage(message: TelegramMessage, transform: TextTransform, isCaption: boolean, sourceName: string): TelegramMessage {
+  let target: EditableText = {
+    text: message.text,
+    entities: message.entities ?? message.rawMessage.entities ?? [],
+  }
+
+  switch (transform.type) {
+    case 'replace':
+      target = replacePattern(target, compilePattern(transform.pattern, 'g'), (match) =>
+        expandReplacement(transform.replacement ?? '', match),
+      )
+      break
+    case 'stripUrls':
+      target = stripUrls(target)
+      break
+    case 'mentions':
+      // @username -> 지정한 이름 (없으면 @만 제거)
+      target = replaceMentions(target, transform.names)
+      break
+    case 'prepend':
+    case 'append': {
+      // 앞뒤 문구는 본문(캡션) 메시지에만 추가
+      if (!isCaption) break
+      const rendered = renderTemplate(transform.template, buildTemplateVars(message, sourceName))
+      target =
+        transform.type === 'prepend'
+          ? replaceRange(target, 0, 0, rendered)
+          : replaceRange(target, target.text.length, target.text.length, rendered)
+      break
+    }
+    case 'mention':
+      break
+  }
+
+  return { ...message, text: target.text, entities: target.entities }
+}
+
+/**
+ * 매핑에 설정된 변환을 순서대로 적용 (엔티티 위치도 함께 보정)
+ */
+export function applyTransforms(
+  transforms: TextTransform[] | undefined,
+  messages: TelegramMessage[],
+  captionMessage: TelegramMessage,
+  sourceName: string,
+): TransformResult {
+  const mentions: string[] = []
+  if (!transforms?.length) return { messages, mentions }
+
+  let result = messages
+  for (const transform of transforms) {
+    if (transform.type === 'mention') {
+      for (const role of transform.roles ?? []) mentions.push(`<@&${role}>`)
+      for (const user of transform.users ?? []) mentions.push(`<@${user}>`)
+      if (transform.everyone) mentions.push('@everyone')
+      continue
+    }
+    result = result.map((message) =>
+      applyToMessage(message, transform, message.id === captionMessage.id, sourceName),
+    )
+  }
+
+  return { messages: result, mentions }
+}
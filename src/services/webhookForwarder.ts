@@ -1,37 +1,111 @@
-import axios from 'axios'
-import { Api } from 'telegram/tl'
 import { TelegramClient } from 'telegram'
-import type { TelegramMessage } from './telegramListener'
+import { MessageDelivery, parseChannelId, TelegramMessage } from './telegramListener'
 import type { ChannelMapping } from '../config'
-import FormData from 'form-data'
+import { DeliveryError, DeliveryQueue } from './deliveryQueue'
+import type { DeadLetterStore } from './deadLetterStore'
+import type { MessageMapStore } from './messageMapStore'
+import { AlbumBuffer } from './albumBuffer'
+import { metrics } from './metrics'
+import { findDropReason } from './messageFilter'
+import { applyTransforms } from './textTransforms'
+import { createDestination, Destination, ForwardPost } from '../destinations'
+import { formatSize, getMediaInfo, MediaFile } from '../utils/media'
+import { resolveMessageContext } from '../utils/messageContext'
+
+export interface ForwarderStores {
+  deadLetters?: DeadLetterStore
+  // 수정/삭제 동기화용 텔레그램 -> Discord 메시지 매핑
+  messageMap?: MessageMapStore
+}
 
 export class WebhookForwarder {
   private channelMappings: ChannelMapping[]
   private telegramClient: (() => TelegramClient | null)
+  // 목적지별 순서 보장 + 레이트 리밋 대응 (모든 HTTP 목적지가 공유)
+  private deliveryQueue = new DeliveryQueue()
+  private destinations: Map<ChannelMapping, Destination> = new Map()
+  private stores: ForwarderStores
+  // 시작 시 확인된 채널 ID (매핑의 telegramChannel -> 채널 ID)
+  private resolveChannelId: (telegramChannel: string) => string | undefined = () => undefined
+  // Saved Messages 명령으로 전달을 멈춘 채널인지
+  private isPaused: (telegramChannel: string) => boolean = () => false
+  // 텔레그램 대신 미디어를 가져올 함수 (replay에서 기록된 파일 사용)
+  private mediaLoader: ((message: TelegramMessage) => Promise<MediaFile[]>) | null = null
+  // 매핑된 채널의 게시물을 픽스처로 기록 (courier replay용, 미디어는 게시물 다운로드를 공유)
+  private recordPost: ((post: ForwardPost) => void) | null = null
+  // 앨범(groupedId) 메시지를 모아서 하나의 게시물로 전달
+  private albumBuffer = new AlbumBuffer((messages) => this.forwardPost(messages).then((delivery) => delivery.delivered))
+  // 전송 큐에 등록된 뒤 아직 전달이 끝나지 않은 게시물 (drain에서 완료를 기다림)
+  private pendingPosts: Set<Promise<void>> = new Set()
+  // 채팅별 마지막 작업 (출처/답장 조회를 기다리는 동안 뒤 게시물이 먼저 큐에 들어가지 않도록)
+  private chatTails: Map<string, Promise<unknown>> = new Map()
 
-  constructor(channelMappings: ChannelMapping[], getTelegramClient: () => TelegramClient | null) {
+  constructor(
+    channelMappings: ChannelMapping[],
+    getTelegramClient: () => TelegramClient | null,
+    stores: ForwarderStores = {},
+  ) {
     this.channelMappings = channelMappings
     this.telegramClient = getTelegramClient
+    this.stores = stores
+
+    this.registerDestinations()
+  }
 
+  // 설정 파일 변경 시 매핑 교체 (전송 큐는 그대로라 진행 중인 전송과 순서는 유지)
+  updateMappings(channelMappings: ChannelMapping[]): void {
+    this.channelMappings = channelMappings
+    this.destinations = new Map()
+    this.registerDestinations()
+  }
+
+  private registerDestinations(): void {
     console.log('[Forwarder] 채널 매핑:')
     this.channelMappings.forEach((m) => {
-      // webhook URL에서 ID 부분만 표시 (보안)
-      const webhookIdMatch = m.webhookUrl.match(/\/webhooks\/(\d+)\//)
-      const safeUrl = webhookIdMatch ? `...webhooks/${webhookIdMatch[1]}/***` : '***'
-      console.log(`  - ${m.telegramChannel} -> ${safeUrl}`)
+      const destination = createDestination(m, this.deliveryQueue)
+      this.destinations.set(m, destination)
+      console.log(`  - ${m.telegramChannel} -> [${m.type ?? 'discord'}] ${destination.label}`)
     })
   }
 
-  findWebhookUrl(message: TelegramMessage): string | null {
-    for (const mapping of this.channelMappings) {
-      if (this.matchesChannel(message, mapping.telegramChannel)) {
-        return mapping.webhookUrl
-      }
-    }
-    return null
+  // 채널 ID가 확인된 매핑은 이름/제목 대신 ID로만 비교
+  setChannelResolver(resolve: (telegramChannel: string) => string | undefined): void {
+    this.resolveChannelId = resolve
+  }
+
+  setPauseChecker(isPaused: (telegramChannel: string) => boolean): void {
+    this.isPaused = isPaused
   }
 
-  private matchesChannel(message: TelegramMessage, target: string): boolean {
+  setMediaLoader(load: (message: TelegramMessage) => Promise<MediaFile[]>): void {
+    this.mediaLoader = load
+  }
+
+  setPostRecorder(record: (post: ForwardPost) => void): void {
+    this.recordPost = record
+  }
+
+  getMappings(): ChannelMapping[] {
+    return this.channelMappings
+  }
+
+  getDestinationLabel(mapping: ChannelMapping): string {
+    return this.getDestination(mapping).label
+  }
+
+  // 같은 채널이 여러 번 매핑되어 있으면 모든 목적지로 전달 (fan-out)
+  findMappings(message: Pick<TelegramMessage, 'chatUsername' | 'chatTitle' | 'chatId'>): ChannelMapping[] {
+    return this.channelMappings.filter((mapping) => this.matchesChannel(message, mapping.telegramChannel))
+  }
+
+  private matchesChannel(
+    message: Pick<TelegramMessage, 'chatUsername' | 'chatTitle' | 'chatId'>,
+    target: string,
+  ): boolean {
+    const channelId = this.resolveChannelId(target)
+    if (channelId) return message.chatId === channelId
+
+    // 확인되지 않은 매핑 (DLQ 재전송 등)은 username, 제목, ID 문자열로 비교
     const normalizedTarget = target.replace(/^@/, '').toLowerCase()
 
     if (message.chatUsername) {
@@ -43,134 +117,296 @@ export class WebhookForwarder {
       if (message.chatTitle.toLowerCase() === normalizedTarget || message.chatTitle === target) return true
     }
 
-    if (message.chatId && message.chatId === target) return true
+    // "-100..." 형태로 적은 ID도 텔레그램 내부 ID로 바꿔 비교
+    if (message.chatId && (message.chatId === target || message.chatId === parseChannelId(target))) return true
 
     return false
   }
 
-  async forward(message: TelegramMessage): Promise<void> {
-    const webhookUrl = this.findWebhookUrl(message)
-    if (!webhookUrl) {
-      console.log(`[Forwarder] 매핑되지 않은 채널: ${message.chatUsername || message.chatTitle || message.chatId}`)
-      return
+  // 전송 큐에 등록되면 바로 반환하고 전달 완료 시점은 따로 돌려줌 (앨범은 모으는 동안도 기다리지 않음)
+  // 재시도 중인 목적지가 다음 메시지나 다른 채널의 폴링을 막지 않도록 하기 위함
+  async forward(message: TelegramMessage): Promise<MessageDelivery> {
+    const groupedId = message.rawMessage.groupedId
+    if (groupedId) {
+      return { delivered: this.albumBuffer.add(message, String(groupedId)) }
     }
 
-    const sourceName = message.chatTitle || message.chatUsername || message.chatId || 'Unknown'
-    console.log(`[Forwarder] 매핑 발견: ${sourceName} -> webhook`)
+    // 같은 채널에서 대기 중인 앨범이 있으면 먼저 보내서 순서 유지
+    this.albumBuffer.flushChat(message.chatId)
+    return this.forwardPost([message])
+  }
+
+  // 모아두던 앨범과 큐에 등록된 게시물이 모두 전달될 때까지 대기
+  async drain(): Promise<void> {
+    await this.albumBuffer.drain()
+    await Promise.all(this.pendingPosts)
+  }
+
+  // 하나의 게시물(단일 메시지 또는 앨범)을 매칭되는 모든 목적지의 큐에 등록
+  private async forwardPost(messages: TelegramMessage[]): Promise<MessageDelivery> {
+    const first = messages[0]
+    const matched = this.findMappings(first)
+    if (matched.length === 0) {
+      console.log(`[Forwarder] 매핑되지 않은 채널: ${first.chatUsername || first.chatTitle || first.chatId}`)
+      return { delivered: Promise.resolve() }
+    }
+
+    // 일시 중지된 채널과 매핑별 필터 규칙에 걸린 목적지는 제외
+    const mappings = matched.filter((mapping) => {
+      if (this.isPaused(mapping.telegramChannel)) {
+        console.log(`[Forwarder] 일시 중지된 채널: ${mapping.telegramChannel}#${first.id} 전달 안 함`)
+        return false
+      }
+      const reason = findDropReason(mapping.filters, messages)
+      if (reason) {
+        console.log(
+          `[Filter] ${this.getSourceName(first)}#${first.id} -> ${this.getDestination(mapping).label} 제외: ${reason}`,
+        )
+      }
+      return !reason
+    })
+    if (mappings.length === 0 && !this.recordPost) return { delivered: Promise.resolve() }
+
+    // 보낼 게시물만 전달 출처/답장을 조회하고, 같은 채팅의 게시물은 도착 순서대로 큐에 등록
+    const deliveries = await this.inChatOrder(first.chatId, async () => {
+      // 미디어는 게시물 단위로 한 번만 받아 기록과 모든 목적지가 재사용
+      const post = this.createPost(mappings.length > 0 ? await this.withContext(messages) : messages)
+      this.recordPost?.(post)
+      if (mappings.length === 0) return []
+
+      console.log(
+        `[Forwarder] 매핑 발견: ${post.sourceName} -> ${mappings.map((m) => this.getDestination(m).label).join(', ')}`,
+      )
+
+      // 목적지별 실패는 서로 영향을 주지 않음 (map 안에서 동기적으로 큐 등록)
+      return mappings.map((mapping) => this.deliverOrDeadLetter(mapping, post))
+    })
+
+    // 실패는 DLQ에 보관하므로 전달 완료는 실패하지 않음
+    const delivered = Promise.all(deliveries).then(() => {
+      this.pendingPosts.delete(delivered)
+    })
+    this.pendingPosts.add(delivered)
+    return { delivered }
+  }
+
+  // 같은 채팅의 작업을 들어온 순서대로 하나씩 실행
+  private inChatOrder<T>(chatId: string | undefined, task: () => Promise<T>): Promise<T> {
+    const key = chatId ?? 'unknown'
+    const previous = this.chatTails.get(key) ?? Promise.resolve()
+    const run = previous.then(task)
+    const tail = run.catch(() => undefined)
+
+    this.chatTails.set(key, tail)
+    tail.then(() => {
+      if (this.chatTails.get(key) === tail) this.chatTails.delete(key)
+    })
+    return run
+  }
+
+  // 전달 출처/답장 인용 조회 (replay 픽스처처럼 이미 있으면 그대로 사용)
+  private async withContext(messages: TelegramMessage[]): Promise<TelegramMessage[]> {
+    const client = this.telegramClient()
+    return Promise.all(
+      messages.map(async (message) =>
+        message.forwardedFrom || message.replyTo
+          ? message
+          : { ...message, ...(await resolveMessageContext(client, message.rawMessage)) },
+      ),
+    )
+  }
 
+  private async deliverOrDeadLetter(mapping: ChannelMapping, post: ForwardPost): Promise<void> {
     try {
-      await this.sendToWebhook(webhookUrl, message, sourceName)
+      await this.deliverPost(mapping, this.transformPost(mapping, post))
     } catch (error) {
-      console.error('[Forwarder] 전송 실패:', error)
+      const label = this.getDestination(mapping).label
+      console.error(`[Forwarder] 전송 실패 (${label}):`, error)
+      metrics.recordForward(label, false)
+      // 재시도로 해결되지 않은 실패는 나중에 재전송할 수 있도록 게시물 단위로 보관
+      // (재전송 시 변환을 다시 적용하므로 변환 전 원본을 저장)
+      this.stores.deadLetters?.add({
+        messages: post.messages.map((message) => ({
+          id: message.id,
+          text: message.text,
+          chatUsername: message.chatUsername,
+          chatTitle: message.chatTitle,
+          chatId: message.chatId,
+          date: message.date,
+          forwardedFrom: message.forwardedFrom,
+          replyTo: message.replyTo,
+        })),
+        mapping,
+        error: error instanceof Error ? error.message : String(error),
+        status: error instanceof DeliveryError ? error.status : undefined,
+        attempts: error instanceof DeliveryError ? error.attempts : 1,
+      })
     }
   }
 
-  private async sendToWebhook(webhookUrl: string, message: TelegramMessage, sourceName: string): Promise<void> {
-    const embed: Record<string, unknown> = {
-      title: `📨 ${sourceName}`,
-      color: 0x0099ff,
-      timestamp: new Date(message.date * 1000).toISOString(),
-      footer: { text: 'Telegram에서 전달됨' },
+  // 실패 시 에러를 그대로 던짐 (DLQ 재전송에서 사용)
+  async deliver(mapping: ChannelMapping, messages: TelegramMessage[]): Promise<void> {
+    const post = this.createPost(await this.withContext(messages))
+    await this.deliverPost(mapping, this.transformPost(mapping, post))
+  }
+
+  // 주의: 첫 await 이전에 큐 등록이 끝나야 목적지별 전송 순서가 유지됨
+  private async deliverPost(mapping: ChannelMapping, post: ForwardPost): Promise<void> {
+    const destination = this.getDestination(mapping)
+    const sent = await destination.send(post)
+    metrics.recordForward(destination.label, true, post.captionMessage.date)
+
+    for (const { message, remoteId } of sent) {
+      if (remoteId && message.chatId && mapping.webhookUrl) {
+        this.stores.messageMap?.add(message.chatId, message.id, {
+          telegramChannel: mapping.telegramChannel,
+          webhookUrl: mapping.webhookUrl,
+          discordMessageId: remoteId,
+        })
+      }
+    }
+  }
+
+  // 텔레그램에서 수정된 메시지를 Discord 메시지에 반영
+  async forwardEdit(message: TelegramMessage): Promise<void> {
+    if (!message.chatId) return
+    // 앨범에서 캡션이 없는 메시지는 수정할 내용이 없음
+    if (message.rawMessage.groupedId && !message.text) return
+
+    const forwarded = this.stores.messageMap?.get(message.chatId, message.id) ?? []
+    const sourceName = this.getSourceName(message)
+
+    // 긴 본문은 여러 Discord 메시지로 나뉘어 있으므로 목적지별로 모아서 수정
+    const targets = new Map<ChannelMapping, string[]>()
+    for (const target of forwarded) {
+      const mapping = this.findTargetMapping(target.telegramChannel, target.webhookUrl)
+      if (!mapping || mapping.syncEdits === false) continue
+      targets.set(mapping, [...(targets.get(mapping) ?? []), target.discordMessageId])
     }
+    // 전달한 적 없는 메시지는 출처/답장도 조회하지 않음
+    if (targets.size === 0) return
+
+    const post = this.createPost(await this.inChatOrder(message.chatId, () => this.withContext([message])))
+
+    for (const [mapping, remoteIds] of targets) {
+      const destination = this.getDestination(mapping)
+      if (!destination.edit) continue
 
-    if (message.text) {
-      const truncated = message.text.length > 4000 ? message.text.substring(0, 3997) + '...' : message.text
-      embed.description = truncated
+      try {
+        await destination.edit(remoteIds, this.transformPost(mapping, post))
+        console.log(`[Forwarder] 수정 반영 완료: ${sourceName}#${message.id}`)
+      } catch (error) {
+        console.error('[Forwarder] 수정 반영 실패:', error)
+      }
     }
+  }
 
-    // 미디어 처리
-    const files = await this.downloadMedia(message)
+  // 텔레그램에서 삭제된 메시지를 Discord에서도 삭제
+  async forwardDelete(chatId: string, messageIds: number[]): Promise<void> {
+    const messageMap = this.stores.messageMap
+    if (!messageMap) return
 
-    if (files.length > 0) {
-      // 미디어가 있으면 multipart/form-data로 전송
-      const formData = new FormData()
+    // 앨범은 여러 텔레그램 메시지가 같은 Discord 메시지를 가리킴
+    const deleted = new Set<string>()
 
-      const payload: Record<string, unknown> = { embeds: [embed] }
-      formData.append('payload_json', JSON.stringify(payload))
+    for (const messageId of messageIds) {
+      for (const target of messageMap.get(chatId, messageId)) {
+        if (deleted.has(target.discordMessageId)) continue
+        deleted.add(target.discordMessageId)
 
-      for (let i = 0; i < files.length; i++) {
-        formData.append(`files[${i}]`, files[i].buffer, {
-          filename: files[i].name,
-          contentType: files[i].contentType,
-        })
+        const mapping = this.findTargetMapping(target.telegramChannel, target.webhookUrl)
+        if (!mapping || mapping.syncDeletes === false) continue
+
+        const destination = this.getDestination(mapping)
+        if (!destination.delete) continue
+
+        try {
+          await destination.delete(target.discordMessageId)
+          console.log(`[Forwarder] 삭제 반영 완료: ${chatId}#${messageId}`)
+        } catch (error) {
+          console.error('[Forwarder] 삭제 반영 실패:', error)
+        }
       }
+      messageMap.remove(chatId, messageId)
+    }
+  }
 
-      await axios.post(webhookUrl, formData, {
-        headers: formData.getHeaders(),
-        maxBodyLength: 25 * 1024 * 1024,
-      })
-    } else {
-      // 텍스트만 있으면 JSON으로 전송
-      await axios.post(webhookUrl, { embeds: [embed] }, {
-        headers: { 'Content-Type': 'application/json' },
-      })
+  // 전송 큐에 대기 중인 요청 수 (모든 목적지 합계)
+  getQueueDepth(): number {
+    return this.deliveryQueue.getDepth()
+  }
+
+  private getDestination(mapping: ChannelMapping): Destination {
+    let destination = this.destinations.get(mapping)
+    if (!destination) {
+      // DLQ 재전송 시 파일에 저장된 매핑처럼 목록에 없는 매핑
+      destination = createDestination(mapping, this.deliveryQueue)
+      this.destinations.set(mapping, destination)
+    }
+    return destination
+  }
+
+  // 수정/삭제 대상이 전달되었던 매핑 (fan-out이면 채널명만으로는 구분되지 않음)
+  private findTargetMapping(telegramChannel: string, webhookUrl: string): ChannelMapping | undefined {
+    return this.channelMappings.find((m) => m.telegramChannel === telegramChannel && m.webhookUrl === webhookUrl)
+  }
+
+  private createPost(messages: TelegramMessage[]): ForwardPost {
+    // 같은 게시물의 미디어는 한 번만 다운로드 (변환된 복사본도 같은 id로 공유)
+    const downloads = new Map<number, Promise<MediaFile[]>>()
+
+    return {
+      sourceName: this.getSourceName(messages[0]),
+      messages,
+      captionMessage: messages.find((m) => m.text) ?? messages[0],
+      downloadMedia: (message) => {
+        let download = downloads.get(message.id)
+        if (!download) {
+          download = this.mediaLoader ? this.mediaLoader(message) : this.downloadMedia(message)
+          downloads.set(message.id, download)
+        }
+        return download
+      },
     }
+  }
+
+  // 매핑별 텍스트 변환 적용 (미디어 다운로드는 원본 게시물과 공유)
+  private transformPost(mapping: ChannelMapping, post: ForwardPost): ForwardPost {
+    if (!mapping.transforms?.length) return post
+
+    const { messages, mentions } = applyTransforms(mapping.transforms, post.messages, post.captionMessage, post.sourceName)
+    return {
+      ...post,
+      messages,
+      captionMessage: messages.find((m) => m.id === post.captionMessage.id) ?? messages[0],
+      mentions,
+    }
+  }
 
-    console.log(`[Forwarder] 전송 완료: ${sourceName} (미디어: ${files.length}개)`)
+  private getSourceName(message: TelegramMessage): string {
+    return message.chatTitle || message.chatUsername || message.chatId || 'Unknown'
   }
 
-  private async downloadMedia(message: TelegramMessage): Promise<{ buffer: Buffer; name: string; contentType: string }[]> {
-    if (!message.media) return []
+  private async downloadMedia(message: TelegramMessage): Promise<MediaFile[]> {
+    const info = getMediaInfo(message)
+    if (!info) return []
 
     const client = this.telegramClient()
     if (!client) return []
 
-    const files: { buffer: Buffer; name: string; contentType: string }[] = []
-    const media = message.media
-
     try {
-      // 사진
-      if (media instanceof Api.MessageMediaPhoto && media.photo) {
-        console.log('[Forwarder] 사진 다운로드 중...')
-        const buffer = await client.downloadMedia(message.rawMessage, {})
-        if (buffer && Buffer.isBuffer(buffer)) {
-          files.push({ buffer, name: `photo_${message.id}.jpg`, contentType: 'image/jpeg' })
-          console.log('[Forwarder] 사진 다운로드 완료')
-        }
-      }
-      // 문서 (비디오, GIF, 파일 등)
-      else if (media instanceof Api.MessageMediaDocument && media.document) {
-        const doc = media.document as Api.Document
-        const fileSize = 'size' in doc ? Number(doc.size) : 0
-        const maxSize = 8 * 1024 * 1024 // 8MB
-
-        if (fileSize > maxSize) {
-          console.log(`[Forwarder] 파일 크기 초과 (${(fileSize / 1024 / 1024).toFixed(2)}MB), 건너뜀`)
-          return files
-        }
-
-        console.log('[Forwarder] 문서/비디오 다운로드 중...')
-        const buffer = await client.downloadMedia(message.rawMessage, {})
-        if (buffer && Buffer.isBuffer(buffer)) {
-          let fileName = `file_${message.id}`
-          let contentType = 'application/octet-stream'
-
-          if ('attributes' in doc && Array.isArray(doc.attributes)) {
-            for (const attr of doc.attributes) {
-              if (attr instanceof Api.DocumentAttributeFilename) {
-                fileName = attr.fileName
-                break
-              }
-            }
-          }
-
-          if ('mimeType' in doc && doc.mimeType) {
-            contentType = doc.mimeType as string
-            if (!fileName.includes('.')) {
-              if (contentType.startsWith('video/')) fileName += '.mp4'
-              else if (contentType === 'image/gif') fileName += '.gif'
-              else if (contentType.startsWith('image/')) fileName += '.jpg'
-            }
-          }
-
-          files.push({ buffer, name: fileName, contentType })
-          console.log(`[Forwarder] 파일 다운로드 완료: ${fileName}`)
-        }
+      console.log(`[Forwarder] 미디어 다운로드 중... (${info.name}, ${formatSize(info.size)})`)
+      // 애니메이션 스티커는 원본(TGS/WebM) 대신 썸네일 이미지를 받음
+      const buffer = await client.downloadMedia(message.rawMessage, info.thumb ? { thumb: info.thumb } : {})
+      if (buffer && Buffer.isBuffer(buffer)) {
+        console.log(`[Forwarder] 파일 다운로드 완료: ${info.name}`)
+        metrics.recordMediaBytes(buffer.length)
+        return [{ buffer, name: info.name, contentType: info.contentType }]
       }
     } catch (error) {
       console.error('[Forwarder] 미디어 다운로드 실패:', error)
     }
 
-    return files
+    return []
   }
 }
@@ -0,0 +1,142 @@
+import { Api } from "telegram/tl";
+
+// 엔티티 트리 노드 (offset/length는 텔레그램과 같은 UTF-16 단위 = JS 문자열 인덱스)
+interface EntityNode {
+  entity?: Api.TypeMessageEntity;
+  start: number;
+  end: number;
+  children: EntityNode[];
+}
+
+// 서식 없이 그대로 두면 Discord 마크다운으로 해석되는 문자
+const INLINE_SPECIAL = /[\\*_~`|[\]]/g;
+// 줄 맨 앞에서만 의미가 있는 문자 (인용, 헤더, 목록)
+const LINE_START_SPECIAL = /^(>|#{1,3} |- )/;
+
+/**
+ * 일반 텍스트를 Discord 마크다운에서 문자 그대로 보이도록 이스케이프
+ * @param atLineStart 텍스트가 줄의 시작 위치에서 시작하는지 여부
+ */
+export function escapeDiscordMarkdown(
+  text: string,
+  atLineStart = true,
+): string {
+  return text
+    .split("\n")
+    .map((line, index) => {
+      const escaped = line.replace(INLINE_SPECIAL, "\\$&");
+      return (index > 0 || atLineStart) && LINE_START_SPECIAL.test(escaped)
+        ? `\\${escaped}`
+        : escaped;
+    })
+    .join("\n");
+}
+
+/**
+ * 텔레그램 메시지 엔티티(굵게, 링크, 코드 등)를 Discord 마크다운으로 변환
+ */
+export function toDiscordMarkdown(
+  text: string,
+  entities: Api.TypeMessageEntity[] = [],
+): string {
+  const root: EntityNode = { start: 0, end: text.length, children: [] };
+
+  // 바깥 엔티티가 먼저 오도록 정렬 (시작 위치 오름차순, 길이 내림차순)
+  const pending = entities
+    .map((entity) => ({
+      entity,
+      start: Math.max(0, entity.offset),
+      end: Math.min(text.length, entity.offset + entity.length),
+    }))
+    .filter((item) => item.end > item.start);
+  const byPosition = (
+    a: { start: number; end: number },
+    b: { start: number; end: number },
+  ) => a.start - b.start || b.end - a.end;
+  pending.sort(byPosition);
+
+  const stack: EntityNode[] = [root];
+  while (pending.length > 0) {
+    const item = pending.shift()!;
+    while (item.start >= stack[stack.length - 1].end) stack.pop();
+    const parent = stack[stack.length - 1];
+
+    // 부모 범위를 벗어나는 엔티티는 부모 경계에서 잘라 나머지를 다시 처리
+    if (item.end > parent.end) {
+      pending.push({ ...item, start: parent.end });
+      pending.sort(byPosition);
+      item.end = parent.end;
+    }
+
+    const node: EntityNode = { ...item, children: [] };
+    parent.children.push(node);
+    stack.push(node);
+  }
+
+  return renderNode(text, root);
+}
+
+function renderNode(text: string, node: EntityNode): string {
+  const entity = node.entity;
+  const raw = text.slice(node.start, node.end);
+
+  // 코드는 내용을 이스케이프하지 않음
+  if (entity instanceof Api.MessageEntityCode) {
+    return raw.includes("`") ? `\`\` ${raw} \`\`` : `\`${raw}\``;
+  }
+  if (entity instanceof Api.MessageEntityPre) {
+    // 코드 블록은 줄 시작에서 열어야 언어 표시가 적용됨
+    const lineBreak =
+      node.start > 0 && text[node.start - 1] !== "\n" ? "\n" : "";
+    const body = raw.replace(/```/g, "`\u200b``");
+    return `${lineBreak}\`\`\`${entity.language || ""}\n${body}\n\`\`\``;
+  }
+  // URL/이메일은 이스케이프하면 링크가 깨짐
+  if (
+    entity instanceof Api.MessageEntityUrl ||
+    entity instanceof Api.MessageEntityEmail
+  ) {
+    return raw;
+  }
+
+  let inner = "";
+  let cursor = node.start;
+  for (const child of node.children) {
+    inner += escapeSegment(text, cursor, child.start);
+    inner += renderNode(text, child);
+    cursor = child.end;
+  }
+  inner += escapeSegment(text, cursor, node.end);
+
+  if (!entity) return inner;
+  if (entity instanceof Api.MessageEntityBold) return wrap(inner, "**");
+  if (entity instanceof Api.MessageEntityItalic) return wrap(inner, "*");
+  if (entity instanceof Api.MessageEntityUnderline) return wrap(inner, "__");
+  if (entity instanceof Api.MessageEntityStrike) return wrap(inner, "~~");
+  if (entity instanceof Api.MessageEntitySpoiler) return wrap(inner, "||");
+  if (entity instanceof Api.MessageEntityTextUrl) {
+    const url = entity.url.replace(/\(/g, "%28").replace(/\)/g, "%29");
+    return `[${inner}](${url})`;
+  }
+  if (entity instanceof Api.MessageEntityBlockquote) {
+    return inner
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+  }
+  // 멘션, 해시태그 등은 텍스트만 유지
+  return inner;
+}
+
+function escapeSegment(text: string, start: number, end: number): string {
+  if (end <= start) return "";
+  const atLineStart = start === 0 || text[start - 1] === "\n";
+  return escapeDiscordMarkdown(text.slice(start, end), atLineStart);
+}
+
+// Discord는 기호 안쪽에 공백이 붙으면 서식을 적용하지 않으므로 공백은 바깥으로 뺌
+function wrap(inner: string, marker: string): string {
+  const match = inner.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return inner;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+}
@@ -0,0 +1,22 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// JSON 파일 읽기 (파일이 없거나 깨졌으면 기본값 사용)
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) return fallback;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    console.error(`[Storage] ${filePath} 읽기 실패, 기본값 사용:`, error);
+    return fallback;
+  }
+}
+
+// 임시 파일에 쓴 뒤 rename (쓰는 도중 종료되어도 기존 파일이 깨지지 않음)
+export function writeJsonFileAtomic(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,240 @@
+import { Api } from "telegram/tl";
+import type { TelegramMessage } from "../services/telegramListener";
+
+export interface MediaInfo {
+  name: string;
+  contentType: string;
+  size: number;
+  // 원본 대신 받을 썸네일 (애니메이션 스티커)
+  thumb?: Api.PhotoSize;
+}
+
+// 파일이 아닌 미디어(투표, 위치, 연락처, 링크 미리보기 등)를 글로 요약한 것
+export interface MediaSummary {
+  title: string;
+  lines: string[];
+  url?: string;
+}
+
+const MAX_PREVIEW_DESCRIPTION_LENGTH = 300;
+
+export interface MediaFile {
+  buffer: Buffer;
+  name: string;
+  contentType: string;
+}
+
+export function formatSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+}
+
+// 다운로드 없이 텔레그램 메타데이터로 파일 이름/형식/크기를 구함
+export function getMediaInfo(message: TelegramMessage): MediaInfo | null {
+  const media = message.media;
+
+  if (
+    media instanceof Api.MessageMediaPhoto &&
+    media.photo instanceof Api.Photo
+  ) {
+    // downloadMedia는 가장 큰 사이즈를 받음
+    let largest = 0;
+    for (const size of media.photo.sizes) {
+      if (size instanceof Api.PhotoSize) largest = Math.max(largest, size.size);
+      else if (size instanceof Api.PhotoSizeProgressive)
+        largest = Math.max(largest, ...size.sizes);
+      else if (size instanceof Api.PhotoCachedSize)
+        largest = Math.max(largest, size.bytes.length);
+    }
+    return {
+      name: `photo_${message.id}.jpg`,
+      contentType: "image/jpeg",
+      size: largest,
+    };
+  }
+
+  if (
+    media instanceof Api.MessageMediaDocument &&
+    media.document instanceof Api.Document
+  ) {
+    const doc = media.document;
+
+    if (doc.attributes.some((a) => a instanceof Api.DocumentAttributeSticker)) {
+      return getStickerInfo(message.id, doc);
+    }
+
+    let fileName = `file_${message.id}`;
+    let contentType = "application/octet-stream";
+
+    for (const attr of doc.attributes) {
+      if (attr instanceof Api.DocumentAttributeFilename) {
+        fileName = attr.fileName;
+        break;
+      }
+    }
+
+    if (doc.mimeType) {
+      contentType = doc.mimeType;
+      if (!fileName.includes(".")) {
+        if (contentType.startsWith("video/")) fileName += ".mp4";
+        else if (contentType === "image/gif") fileName += ".gif";
+        else if (contentType.startsWith("image/")) fileName += ".jpg";
+      }
+    }
+
+    return { name: fileName, contentType, size: Number(doc.size) };
+  }
+
+  return null;
+}
+
+// 정적 스티커(webp)는 그대로, 애니메이션(TGS)/비디오(WebM) 스티커는 썸네일 이미지로 대체
+function getStickerInfo(
+  messageId: number,
+  doc: Api.Document,
+): MediaInfo | null {
+  if (doc.mimeType === "image/webp") {
+    return {
+      name: `sticker_${messageId}.webp`,
+      contentType: "image/webp",
+      size: Number(doc.size),
+    };
+  }
+
+  let thumb: Api.PhotoSize | undefined;
+  for (const size of doc.thumbs ?? []) {
+    if (size instanceof Api.PhotoSize && (!thumb || size.size > thumb.size)) {
+      thumb = size;
+    }
+  }
+  if (!thumb) return null;
+
+  return {
+    name: `sticker_${messageId}.webp`,
+    contentType: "image/webp",
+    size: thumb.size,
+    thumb,
+  };
+}
+
+/**
+ * 파일로 올릴 수 없는 미디어를 제목과 설명 줄로 요약
+ * (투표, 위치/장소, 연락처, 링크 미리보기, 주사위, 미리보기가 없는 애니메이션 스티커)
+ */
+export function summarizeMedia(message: TelegramMessage): MediaSummary | null {
+  const media = message.media;
+
+  if (media instanceof Api.MessageMediaPoll) {
+    const { poll, results } = media;
+    const total = results.totalVoters ?? 0;
+    const lines = poll.answers.map((answer) => {
+      const voters = results.results?.find((r) =>
+        r.option.equals(answer.option),
+      )?.voters;
+      if (voters === undefined) return `• ${answer.text.text}`;
+      const percent = total > 0 ? Math.round((voters / total) * 100) : 0;
+      return `• ${answer.text.text} — ${voters}표 (${percent}%)`;
+    });
+    lines.push(`총 ${total}명 참여${poll.closed ? " (마감)" : ""}`);
+    return {
+      title: `📊 ${poll.quiz ? "퀴즈" : "투표"}: ${poll.question.text}`,
+      lines,
+    };
+  }
+
+  if (media instanceof Api.MessageMediaVenue) {
+    return {
+      title: `📍 ${media.title}`,
+      lines: [media.address],
+      url: getMapUrl(media.geo),
+    };
+  }
+
+  if (
+    media instanceof Api.MessageMediaGeo ||
+    media instanceof Api.MessageMediaGeoLive
+  ) {
+    const geo = media.geo;
+    return {
+      title:
+        media instanceof Api.MessageMediaGeoLive ? "📍 실시간 위치" : "📍 위치",
+      lines: geo instanceof Api.GeoPoint ? [`${geo.lat}, ${geo.long}`] : [],
+      url: getMapUrl(geo),
+    };
+  }
+
+  if (media instanceof Api.MessageMediaContact) {
+    const name = [media.firstName, media.lastName].filter(Boolean).join(" ");
+    return {
+      title: "👤 연락처",
+      lines: [name, media.phoneNumber].filter(Boolean),
+    };
+  }
+
+  if (
+    media instanceof Api.MessageMediaWebPage &&
+    media.webpage instanceof Api.WebPage
+  ) {
+    const page = media.webpage;
+    const description = page.description ?? "";
+    return {
+      title: `🔗 ${page.siteName || page.displayUrl}`,
+      lines: [
+        page.title ?? "",
+        description.length > MAX_PREVIEW_DESCRIPTION_LENGTH
+          ? `${description.substring(0, MAX_PREVIEW_DESCRIPTION_LENGTH - 1)}…`
+          : description,
+      ].filter(Boolean),
+      url: page.url,
+    };
+  }
+
+  if (media instanceof Api.MessageMediaDice) {
+    return {
+      title: `${media.emoticon} 주사위`,
+      lines: [`결과: ${media.value}`],
+    };
+  }
+
+  if (
+    media instanceof Api.MessageMediaDocument &&
+    media.document instanceof Api.Document &&
+    !getMediaInfo(message)
+  ) {
+    const sticker = media.document.attributes.find(
+      (a): a is Api.DocumentAttributeSticker =>
+        a instanceof Api.DocumentAttributeSticker,
+    );
+    if (sticker) {
+      return {
+        title: `🏷️ 스티커 ${sticker.alt}`,
+        lines: ["(애니메이션 스티커)"],
+      };
+    }
+  }
+
+  return null;
+}
+
+function getMapUrl(geo: Api.TypeGeoPoint): string | undefined {
+  return geo instanceof Api.GeoPoint
+    ? `https://www.google.com/maps?q=${geo.lat},${geo.long}`
+    : undefined;
+}
+
+// 공개 채널(username 있음)만 t.me 링크를 만들 수 있음
+export function getPublicPostUrl(message: TelegramMessage): string | undefined {
+  return message.chatUsername
+    ? `https://t.me/${message.chatUsername}/${message.id}`
+    : undefined;
+}
+
+// 공개 채널은 t.me/<username>/<id>, 비공개 채널은 멤버만 열 수 있는 t.me/c/<채널 ID>/<id>
+export function getPostUrl(message: TelegramMessage): string | undefined {
+  const peerId = message.rawMessage.peerId;
+  return (
+    getPublicPostUrl(message) ??
+    (peerId instanceof Api.PeerChannel
+      ? `https://t.me/c/${peerId.channelId}/${message.id}`
+      : undefined)
+  );
+}
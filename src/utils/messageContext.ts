@@ -0,0 +1,114 @@
+import { TelegramClient } from "telegram";
+import { Api } from "telegram/tl";
+
+// 다른 채널/사용자에게서 전달(포워드)된 메시지의 원본 출처
+export interface ForwardOrigin {
+  name: string;
+  // 원본 게시물 링크 (채널 게시물일 때만)
+  url?: string;
+}
+
+// 답장 대상 메시지 (인용 표시용으로 짧게 줄인 텍스트)
+export interface ReplyContext {
+  id: number;
+  text: string;
+}
+
+export interface MessageContext {
+  forwardedFrom?: ForwardOrigin;
+  replyTo?: ReplyContext;
+}
+
+const MAX_QUOTE_LENGTH = 200;
+
+/**
+ * 메시지의 전달 출처와 답장 대상을 클라이언트로 조회
+ * 조회에 실패해도 전달은 계속되도록 에러는 로그만 남김
+ */
+export async function resolveMessageContext(
+  client: TelegramClient | null,
+  message: Api.Message,
+): Promise<MessageContext> {
+  const context: MessageContext = {};
+
+  if (message.fwdFrom) {
+    context.forwardedFrom = await resolveForwardOrigin(client, message.fwdFrom);
+  }
+
+  const header = message.replyTo;
+  // 포럼 토픽의 메시지는 답장이 아니어도 토픽 시작 메시지를 가리킴
+  if (
+    header instanceof Api.MessageReplyHeader &&
+    header.replyToMsgId &&
+    !(header.forumTopic && !header.replyToTopId)
+  ) {
+    context.replyTo = await resolveReply(client, message, header);
+  }
+
+  return context;
+}
+
+async function resolveForwardOrigin(
+  client: TelegramClient | null,
+  header: Api.MessageFwdHeader,
+): Promise<ForwardOrigin> {
+  let name = header.fromName;
+  let url: string | undefined;
+
+  if (client && header.fromId) {
+    try {
+      const entity = await client.getEntity(header.fromId);
+      if (entity instanceof Api.Channel || entity instanceof Api.Chat) {
+        name = entity.title;
+      } else if (entity instanceof Api.User) {
+        name =
+          [entity.firstName, entity.lastName].filter(Boolean).join(" ") ||
+          entity.username;
+      }
+      if (entity instanceof Api.Channel && header.channelPost) {
+        url = entity.username
+          ? `https://t.me/${entity.username}/${header.channelPost}`
+          : `https://t.me/c/${entity.id}/${header.channelPost}`;
+      }
+    } catch (e) {
+      console.log("[Telegram] 전달 원본 조회 실패:", e);
+    }
+  }
+
+  // 숨김 계정이나 조회할 수 없는 출처는 표시 이름/작성자 서명만 사용
+  return { name: name || header.postAuthor || "알 수 없음", url };
+}
+
+async function resolveReply(
+  client: TelegramClient | null,
+  message: Api.Message,
+  header: Api.MessageReplyHeader,
+): Promise<ReplyContext | undefined> {
+  const id = header.replyToMsgId!;
+
+  // 일부만 인용한 답장은 인용된 부분을 그대로 사용
+  if (header.quoteText) return { id, text: shorten(header.quoteText) };
+  if (!client) return undefined;
+
+  try {
+    const [reply] = await client.getMessages(
+      header.replyToPeerId ?? message.peerId,
+      { ids: id },
+    );
+    if (reply instanceof Api.Message) {
+      const text = reply.message || (reply.media ? "(미디어)" : "");
+      if (text) return { id, text: shorten(text) };
+    }
+  } catch (e) {
+    console.log("[Telegram] 답장 원문 조회 실패:", e);
+  }
+  return undefined;
+}
+
+// 인용은 한 줄로 짧게 표시
+function shorten(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_QUOTE_LENGTH
+    ? `${line.substring(0, MAX_QUOTE_LENGTH - 1)}…`
+    : line;
+}
@@ -0,0 +1,8 @@
+// 설정의 정규식 문자열을 RegExp로 변환
+// "/패턴/플래그" 형식이면 플래그를 그대로 사용하고, 아니면 대소문자 무시(i)로 처리
+export function compilePattern(pattern: string, extraFlags = ""): RegExp {
+  const match = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  const source = match ? match[1] : pattern;
+  const flags = match ? match[2] : "i";
+  return new RegExp(source, Array.from(new Set(flags + extraFlags)).join(""));
+}
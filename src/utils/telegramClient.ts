@@ -0,0 +1,44 @@
+import { TelegramClient } from "telegram";
+import { StringSession } from "telegram/sessions";
+import { config } from "../config";
+import { SessionStore } from "../services/sessionStore";
+
+// TELEGRAM_SESSION_FILE을 설정한 경우 암호화된 세션 파일 저장소
+export function createSessionStore(): SessionStore | null {
+  const { sessionFile, sessionKey } = config.telegram;
+  if (!sessionFile) return null;
+  if (!sessionKey) {
+    throw new Error(
+      "TELEGRAM_SESSION_FILE을 사용하려면 TELEGRAM_SESSION_KEY를 설정하세요.",
+    );
+  }
+  return new SessionStore(sessionFile, sessionKey);
+}
+
+// 세션 파일이 있으면 복호화해서 사용, 없으면 TELEGRAM_SESSION
+export function loadSession(store: SessionStore | null): string {
+  if (store?.exists()) return store.load();
+  return config.telegram.session.trim();
+}
+
+// 저장된 세션으로만 접속 (대화형 로그인 없이, CLI 보조 명령용)
+export async function connectTelegramClient(): Promise<TelegramClient> {
+  const client = new TelegramClient(
+    new StringSession(loadSession(createSessionStore())),
+    config.telegram.apiId,
+    config.telegram.apiHash,
+    { connectionRetries: 5 },
+  );
+
+  await client.connect();
+  if (!(await client.checkAuthorization())) {
+    await client.disconnect();
+    throw new Error(
+      "텔레그램 세션이 유효하지 않습니다. 먼저 courier login으로 로그인하세요.",
+    );
+  }
+
+  // 엔티티 캐시 초기화 (채널 ID로 조회하려면 필요)
+  await client.getDialogs({ limit: 500 });
+  return client;
+}
@@ -0,0 +1,27 @@
+import type { TelegramMessage } from "../services/telegramListener";
+import { getPostUrl } from "./media";
+
+// 템플릿에서 사용할 수 있는 값 ({channel}, {title}, {username}, {messageId}, {date}, {link})
+export function buildTemplateVars(
+  message: TelegramMessage,
+  sourceName: string,
+): Record<string, string> {
+  return {
+    channel: sourceName,
+    title: message.chatTitle ?? "",
+    username: message.chatUsername ?? "",
+    messageId: String(message.id),
+    date: new Date(message.date * 1000).toISOString(),
+    link: getPostUrl(message) ?? "",
+  };
+}
+
+// {이름} 자리표시자를 값으로 치환 (모르는 이름은 그대로 둠)
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? vars[name] : placeholder,
+  );
+}
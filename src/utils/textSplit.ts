@@ -0,0 +1,144 @@
+// 나눌 위치 우선순위: 문단 > 줄 > 문장 > 단어 (모두 공백에서 나눔)
+const BREAK_PATTERNS = [/\n[ \t]*\n\s*/g, /\n\s*/g, /(?<=[.!?。])\s+/g, /\s+/g];
+// 코드 블록과 인라인 서식을 닫고 다시 여는 데 필요한 여유분
+const CLOSE_RESERVE = 32;
+// 조각 끝에서 닫고 다음 조각에서 다시 여는 인라인 서식 (긴 기호부터 확인)
+const INLINE_MARKERS = ["**", "__", "~~", "||", "*"];
+// [텍스트](URL) 링크 (텍스트 안의 대괄호는 이스케이프되어 있음)
+const LINK_PATTERN = /\[(?:\\.|[^\]\\])*\]\([^)\s]*\)/g;
+const BARE_URL_PATTERN = /https?:\/\/\S+/y;
+
+interface OpenFormatting {
+  // 닫히지 않은 인라인 서식 (열린 순서)
+  markers: string[];
+  // 닫히지 않은 코드 블록의 언어 (없으면 undefined)
+  fence?: string;
+}
+
+/**
+ * 긴 텍스트를 maxLength 이하의 조각으로 나눔 (순서 유지)
+ * 굵게/코드 블록 등 서식 중간에서 나뉘면 조각마다 닫고 다시 열어 서식을 유지하고,
+ * 링크는 중간에서 나누지 않음
+ */
+export function splitText(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const { end, next } = findBreak(rest, maxLength - CLOSE_RESERVE);
+    let piece = rest.slice(0, end).trimEnd();
+    rest = rest.slice(next);
+
+    const { markers, fence } = findOpenFormatting(piece);
+    if (fence !== undefined) {
+      piece += "\n```";
+      rest = `\`\`\`${fence}\n${rest}`;
+    }
+    piece += [...markers].reverse().join("");
+    rest = markers.join("") + rest;
+    pieces.push(piece);
+  }
+  if (rest.trim()) pieces.push(rest);
+
+  return pieces;
+}
+
+// maxLength 안에서 가장 뒤쪽의 자연스러운 분할 위치 (너무 짧은 조각, 링크 중간은 피함)
+function findBreak(
+  text: string,
+  maxLength: number,
+): { end: number; next: number } {
+  const window = text.slice(0, maxLength + 1);
+  const links = Array.from(text.matchAll(LINK_PATTERN))
+    .filter((match) => match.index! < maxLength)
+    .map((match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+  const insideLink = (index: number) =>
+    links.some((link) => index > link.start && index < link.end);
+
+  for (const pattern of BREAK_PATTERNS) {
+    let best: RegExpMatchArray | undefined;
+    for (const match of window.matchAll(pattern)) {
+      if (match.index! <= maxLength && !insideLink(match.index!)) best = match;
+    }
+    if (best && best.index! >= maxLength / 2) {
+      return { end: best.index!, next: best.index! + best[0].length };
+    }
+  }
+
+  // 링크에 걸리면 링크 앞에서 자름 (링크 하나가 한도보다 길면 어쩔 수 없이 자름)
+  const link = links.find(
+    (link) => maxLength > link.start && maxLength < link.end,
+  );
+  if (link && link.start > 0) return { end: link.start, next: link.start };
+
+  // 공백이 없으면 강제로 자름 (서로게이트 쌍은 나누지 않음)
+  const code = text.charCodeAt(maxLength - 1);
+  const end = code >= 0xd800 && code <= 0xdbff ? maxLength - 1 : maxLength;
+  return { end, next: end };
+}
+
+// 텍스트 끝에서 닫히지 않은 코드 블록과 인라인 서식
+function findOpenFormatting(text: string): OpenFormatting {
+  const markers: string[] = [];
+  let fence: string | undefined;
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith("```", i)) {
+      i += 3;
+      if (fence !== undefined) {
+        fence = undefined;
+        continue;
+      }
+      // 여는 기호 바로 뒤는 언어
+      const language = text.slice(i).match(/^[^\s`]*/)![0];
+      fence = language;
+      i += language.length;
+      continue;
+    }
+    // 코드 블록 안의 기호는 서식이 아님
+    if (fence !== undefined) {
+      i++;
+      continue;
+    }
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    // URL은 이스케이프하지 않으므로 안의 기호를 서식으로 보지 않음
+    BARE_URL_PATTERN.lastIndex = i;
+    if (BARE_URL_PATTERN.test(text)) {
+      i = BARE_URL_PATTERN.lastIndex;
+      continue;
+    }
+    // 인라인 코드는 닫는 기호까지 건너뜀 (없으면 다음 조각에서 다시 엶)
+    if (text[i] === "`") {
+      const ticks = text.startsWith("``", i) ? "``" : "`";
+      const close = text.indexOf(ticks, i + ticks.length);
+      if (close === -1) {
+        markers.push(ticks);
+        break;
+      }
+      i = close + ticks.length;
+      continue;
+    }
+
+    const marker = INLINE_MARKERS.find((m) => text.startsWith(m, i));
+    if (marker) {
+      const index = markers.lastIndexOf(marker);
+      if (index === -1) {
+        markers.push(marker);
+      } else {
+        markers.splice(index, 1);
+      }
+      i += marker.length;
+      continue;
+    }
+    i++;
+  }
+
+  return { markers, fence };
+}